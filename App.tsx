@@ -1,7 +1,43 @@
-import React, { useState, useEffect, useRef } from 'react';
-import { saveEntry, fetchAllTexts, subscribeToNewEntries, isBackendConfigured } from './services/googleSheetsClient';
-import { generateWordCloudBlob } from './utils/wordCloudGenerator';
-import { WordCloudEntry } from './types';
+import React, { useState, useEffect, useRef, useMemo } from 'react';
+import { entryStore } from './services/entryStore';
+import { processPhrases, renderWordCloudPng, renderWordCloudSvg } from './utils/wordCloudGenerator';
+import { displayTokenizeOptions } from './utils/tokenizer';
+import { layoutWordCloudInBackground } from './utils/backgroundGeneration';
+import { downloadBlob } from './utils/download';
+import { parseRoute, sessionPath, sessionUrl } from './utils/routes';
+import { isApproved } from './utils/moderation';
+import { applyEntryEvent } from './utils/entries';
+import { useSession } from './hooks/useSession';
+import { useModerationSettings } from './hooks/useModerationSettings';
+import { useDisplaySettings } from './hooks/useDisplaySettings';
+import { useLiveControl } from './hooks/useLiveControl';
+import { useQuestions } from './hooks/useQuestions';
+import { useParticipantName } from './hooks/useParticipantName';
+import { useOutbox } from './hooks/useOutbox';
+import { changedDisplaySettings, isAfterClear } from './utils/liveControl';
+import { matchesQuestion } from './utils/questions';
+import { entryTimeRange, isInTimeSpan } from './utils/timeline';
+import { getDeviceId } from './utils/device';
+import { answerLimit, checkSubmission, countAnswers, loadSubmissionHistory, recordSubmission } from './utils/submissions';
+import {
+  ConnectionHealth, ConnectionState, DisplaySettings, GenerationTiming, ModerationSettings, OutboxItem, ReplayState, RotationMode, ShapeName, SubmissionRefusal, TokenizationMode, UnplacedReason,
+  UnplacedWord, WordCloudEntry, WordFrequency
+} from './types';
+import SessionsPage from './components/SessionsPage';
+import ModerationPage from './components/ModerationPage';
+import LiveCloud from './components/LiveCloud';
+import ThemePanel from './components/ThemePanel';
+import SizingPanel from './components/SizingPanel';
+import WordsPanel from './components/WordsPanel';
+import AdminPage from './components/AdminPage';
+import DataPage from './components/DataPage';
+import JoinScreen from './components/JoinScreen';
+import QrOverlay from './components/QrOverlay';
+import QrPanel from './components/QrPanel';
+import Leaderboard from './components/Leaderboard';
+import LeaderboardPanel from './components/LeaderboardPanel';
+import TimelineBar from './components/TimelineBar';
+import { ANONYMOUS_NAME } from './constants';
 
 // --- Components ---
 
@@ -22,7 +58,10 @@ const Navbar: React.FC = () => {
     };
   }, []);
 
-  const isLive = hash === '#/live';
+  const route = parseRoute(hash);
+  const isLive = route.page === 'live';
+  const isInput = route.page === 'input';
+  const isSessions = route.page === 'sessions';
 
   return (
     <nav 
@@ -45,9 +84,9 @@ const Navbar: React.FC = () => {
           </div>
           <div className="flex items-center space-x-2 bg-gray-100/10 rounded-full p-1 backdrop-blur-sm">
             <a
-              href="#/"
+              href={sessionPath(route.sessionId, 'input')}
               className={`px-6 py-2 rounded-full text-sm font-bold transition-all duration-300 font-kanit ${
-                !isLive 
+                isInput 
                   ? 'bg-[#F40000] text-white shadow-md transform scale-105' 
                   : scrolled || isLive ? 'text-gray-600 hover:bg-gray-100' : 'text-white/80 hover:bg-white/10'
               }`}
@@ -55,7 +94,7 @@ const Navbar: React.FC = () => {
               ส่งข้อความ
             </a>
             <a
-              href="#/live"
+              href={sessionPath(route.sessionId, 'live')}
               className={`px-6 py-2 rounded-full text-sm font-bold transition-all duration-300 font-kanit ${
                 isLive 
                   ? 'bg-[#007947] text-white shadow-md transform scale-105' 
@@ -64,6 +103,16 @@ const Navbar: React.FC = () => {
             >
               Live Display
             </a>
+            <a
+              href="#/sessions"
+              className={`px-6 py-2 rounded-full text-sm font-bold transition-all duration-300 font-kanit ${
+                isSessions 
+                  ? 'bg-[#007947] text-white shadow-md transform scale-105' 
+                  : scrolled || isLive ? 'text-gray-600 hover:bg-gray-100' : 'text-white/80 hover:bg-white/10'
+              }`}
+            >
+              Sessions
+            </a>
           </div>
         </div>
       </div>
@@ -71,36 +120,212 @@ const Navbar: React.FC = () => {
   );
 };
 
-const InputPage: React.FC = () => {
+const TOKENIZE_MODE_LABELS: Record<TokenizationMode, string> = {
+  phrase: 'Phrase',
+  word: 'Word',
+  ngram: 'N-gram',
+};
+
+const ROTATION_LABELS: Record<RotationMode, string> = {
+  none: 'Flat',
+  orthogonal: '0/90°',
+  random: 'Random°',
+};
+
+const SHAPE_LABELS: Record<ShapeName, string> = {
+  rectangle: 'Rectangle',
+  ellipse: 'Ellipse',
+  circle: 'Circle',
+  heart: 'Heart',
+  cloud: 'Cloud',
+  image: 'Image…',
+};
+
+const UNPLACED_REASON_LABELS: Record<UnplacedReason, string> = {
+  crowded: 'no space left',
+  shape: 'too big for the shape',
+  limit: 'past the word limit',
+};
+
+/**
+ * Tooltip for the dropped-words warning: one line per reason with a few examples, then timing.
+ */
+const describeUnplaced = (unplaced: UnplacedWord[], timing: GenerationTiming | null): string => {
+  const lines = (Object.keys(UNPLACED_REASON_LABELS) as UnplacedReason[]).flatMap(reason => {
+    const words = unplaced.filter(word => word.reason === reason);
+    if (words.length === 0) return [];
+    const examples = words.slice(0, 5).map(word => word.text).join(', ');
+    return [`${words.length} ${UNPLACED_REASON_LABELS[reason]}: ${examples}${words.length > 5 ? ', …' : ''}`];
+  });
+  if (timing) lines.push(`Layout ${Math.round(timing.layout)} ms`);
+  return lines.join('\n');
+};
+
+// How long a newly arrived word stays highlighted, matching the animation in index.html
+const HIGHLIGHT_MS = 2500;
+
+// Header badge for the live display's connection to its backend
+const CONNECTION_BADGES: Record<ConnectionState | 'connecting' | 'local', { label: string; dot: string; text: string; pulse: boolean }> = {
+  connected: { label: 'ONLINE', dot: 'bg-[#007947]', text: 'text-[#007947]', pulse: true },
+  degraded: { label: 'DEGRADED', dot: 'bg-yellow-500', text: 'text-yellow-600', pulse: true },
+  offline: { label: 'OFFLINE', dot: 'bg-[#F40000]', text: 'text-[#F40000]', pulse: false },
+  connecting: { label: 'CONNECTING', dot: 'bg-gray-400', text: 'text-gray-400', pulse: true },
+  local: { label: 'LOCAL', dot: 'bg-yellow-500', text: 'text-yellow-600', pulse: true },
+};
+
+// Wait before loading the history again after it failed part way
+const HISTORY_RETRY_MS = 10_000;
+// How often the display reloads the moderation rules it filters entries with
+const MODERATION_REFRESH_MS = 15_000;
+
+// Real time between replay steps; each step moves the replay clock by speed times this
+const REPLAY_STEP_MS = 1000;
+// How often the rolling time window moves forward
+const TIME_WINDOW_TICK_MS = 15_000;
+
+const TIME_WINDOW_OPTIONS: { minutes: number | null; label: string }[] = [
+  { minutes: null, label: 'All time' },
+  { minutes: 5, label: 'Last 5 min' },
+  { minutes: 10, label: 'Last 10 min' },
+  { minutes: 30, label: 'Last 30 min' },
+  { minutes: 60, label: 'Last hour' },
+];
+
+// Settings that change where words go; the stable layout starts over when one changes
+// Font and sizing change every word's size, so old positions would no longer fit the glyphs
+const sameLayoutSettings = (a: DisplaySettings, b: DisplaySettings) =>
+  a.tokenizeMode === b.tokenizeMode && JSON.stringify(a.tokenize) === JSON.stringify(b.tokenize) && a.fuzzyMerge === b.fuzzyMerge &&
+  a.rotation === b.rotation && a.shape === b.shape && a.shapeImage === b.shapeImage &&
+  a.theme.fontFamily === b.theme.fontFamily && JSON.stringify(a.sizing) === JSON.stringify(b.sizing);
+
+/**
+ * Words that are new or counted more often than in the previous layout.
+ */
+const changedWords = (previous: WordFrequency[], next: WordFrequency[]): string[] => {
+  const previousCounts = new Map(previous.map(word => [word.text, word.count]));
+  return next
+    .filter(word => word.count > (previousCounts.get(word.text) ?? 0))
+    .map(word => word.text);
+};
+
+/**
+ * Tells a participant why their submission was not sent.
+ */
+const describeRefusal = (refusal: SubmissionRefusal): string => {
+  switch (refusal.reason) {
+    case 'cooldown':
+      return `ส่งเร็วเกินไป โปรดรอ ${refusal.waitSeconds} วินาทีแล้วลองใหม่`;
+    case 'limit':
+      return `คุณส่งครบ ${refusal.max} ครั้งสำหรับคำถามนี้แล้ว`;
+    case 'duplicate':
+      return 'คุณส่งข้อความนี้ไปแล้ว ลองใช้คำอื่นดูนะ';
+  }
+};
+
+/**
+ * Where a submission is on its way to the display, in the participant's words.
+ */
+const describeDelivery = (item: OutboxItem): string => {
+  switch (item.status) {
+    case 'queued':
+      return item.attempts > 0 ? 'ยังส่งไม่ได้ กำลังลองใหม่อัตโนมัติ' : 'รอส่ง';
+    case 'sending':
+      return 'กำลังส่ง...';
+    case 'delivered':
+      return item.entry.status === 'pending' ? 'ส่งแล้ว · รอการตรวจสอบ' : 'ส่งแล้ว';
+    case 'failed':
+      return 'ส่งไม่สำเร็จ';
+  }
+};
+
+const DELIVERY_STYLES: Record<OutboxItem['status'], string> = {
+  queued: 'bg-gray-50 text-gray-500 border-gray-100',
+  sending: 'bg-gray-50 text-gray-500 border-gray-100',
+  delivered: 'bg-green-50 text-[#007947] border-green-100',
+  failed: 'bg-red-50 text-[#F40000] border-red-100',
+};
+
+// Submissions listed under the form, newest first
+const SHOWN_SUBMISSIONS = 5;
+
+interface SessionPageProps {
+  sessionId: string;
+}
+
+const InputPage: React.FC<SessionPageProps> = ({ sessionId }) => {
   const [inputText, setInputText] = useState('');
+  const [refusal, setRefusal] = useState<SubmissionRefusal | null>(null);
+  // Submissions wait in a device outbox until the backend confirms them
+  const { items: outbox, enqueue, retry } = useOutbox(sessionId);
+  const session = useSession(sessionId);
+  const { settings: moderation, isLoaded: isModerationLoaded, refreshSettings } = useModerationSettings(sessionId);
   const [isSubmitting, setIsSubmitting] = useState(false);
-  const [status, setStatus] = useState<'idle' | 'success' | 'error'>('idle');
+  // The presenter switches the active question from #/admin; it shows up here live
+  const { control } = useLiveControl(sessionId);
+  const question = control.activeQuestion;
+  // What this browser already sent, for the submission limits; re-read on every submit
+  const [history, setHistory] = useState(() => loadSubmissionHistory(sessionId));
+  const isClosed = !!session?.archived;
+  const limit = answerLimit(moderation.limits, question);
+  const answeredCount = countAnswers(history, question?.id ?? null);
+  const isLimitReached = !!limit && answeredCount >= limit;
+  const { name: participantName, saveName } = useParticipantName();
+  const [isEditingName, setIsEditingName] = useState(false);
+  const asksForName = moderation.nameMode !== 'anonymous';
+  const needsJoin = asksForName &&
+    (isEditingName || participantName === null || (moderation.nameMode === 'required' && !participantName));
+
+  const canSubmit = isModerationLoaded && !isSubmitting && !isClosed && !isLimitReached && !!inputText.trim();
 
   const handleSubmit = async () => {
-    if (!inputText.trim()) return;
+    if (!canSubmit) return;
 
+    // The organizer may have changed the limits since this page opened
     setIsSubmitting(true);
-    setStatus('idle');
+    const rules = await refreshSettings();
+    setIsSubmitting(false);
 
-    try {
-      const userName = "Anonymous User"; 
-      const { error } = await saveEntry(userName, inputText, null);
-      
-      if (error) throw error;
+    // Read again so answers sent from another tab count too
+    const currentHistory = loadSubmissionHistory(sessionId);
+    const refused = checkSubmission(currentHistory, inputText, question, rules.limits);
+    setRefusal(refused);
+    if (refused) {
+      setHistory(currentHistory);
+      return;
+    }
 
-      setStatus('success');
-      setInputText('');
-      
-      setTimeout(() => setStatus('idle'), 3000);
+    // Names are only sent when the organizer asks for them
+    const userName = asksForName && participantName ? participantName : ANONYMOUS_NAME;
+    enqueue({
+      session_id: sessionId,
+      user_name: userName,
+      input_text: inputText,
+      image_url: null,
+      // Held or shown by the live display under the session's current rules (see displayStatus)
+      status: 'pending',
+      question_id: question?.id ?? null,
+      device_id: getDeviceId()
+    });
 
-    } catch (err) {
-      console.error(err);
-      setStatus('error');
-    } finally {
-      setIsSubmitting(false);
-    }
+    // Queued answers count toward the limits; the outbox makes sure they arrive
+    setHistory(recordSubmission(sessionId, currentHistory, inputText, question?.id ?? null));
+    setInputText('');
   };
 
+  if (needsJoin) {
+    return (
+      <JoinScreen
+        nameMode={moderation.nameMode}
+        initialName={participantName ?? ''}
+        sessionName={session?.name}
+        onJoin={(name) => {
+          saveName(name);
+          setIsEditingName(false);
+        }}
+      />
+    );
+  }
+
   return (
     <div className="min-h-screen pt-24 pb-12 px-4 flex flex-col items-center justify-center relative overflow-hidden">
       {/* Decorative Background Elements */}
@@ -109,16 +334,47 @@ const InputPage: React.FC = () => {
 
       <div className="max-w-2xl w-full animate-fade-in z-10">
         <div className="text-center mb-8">
-          <h2 className="text-5xl font-black text-[#007947] font-kanit tracking-tight mb-4 drop-shadow-sm">
-            แสดงความคิดเห็น
-          </h2>
-          <p className="text-xl text-gray-600 font-light font-kanit">
-            ทุกคำของคุณมีค่า... ข้อความของคุณจะถูกนำไปสร้างเป็นงานศิลปะ
-          </p>
-          {!isBackendConfigured && (
+          {question ? (
+            <h2 key={question.id} className="text-4xl font-black text-[#007947] font-kanit tracking-tight mb-4 drop-shadow-sm animate-fade-in break-words">
+              {question.text}
+            </h2>
+          ) : (
+            <>
+              <h2 className="text-5xl font-black text-[#007947] font-kanit tracking-tight mb-4 drop-shadow-sm">
+                แสดงความคิดเห็น
+              </h2>
+              <p className="text-xl text-gray-600 font-light font-kanit">
+                ทุกคำของคุณมีค่า... ข้อความของคุณจะถูกนำไปสร้างเป็นงานศิลปะ
+              </p>
+            </>
+          )}
+          {limit && (
+            <p className="mt-2 text-lg text-gray-600 font-light font-kanit">
+              ตอบได้ {limit} ครั้ง · เหลืออีก {Math.max(0, limit - answeredCount)} ครั้ง
+            </p>
+          )}
+          {session && (
+            <div className="mt-4 inline-flex items-center px-4 py-1.5 rounded-full bg-[#007947]/10 text-[#007947] text-sm font-bold font-kanit border border-[#007947]/20">
+              {session.name}
+            </div>
+          )}
+          {asksForName && (
+            <div className="mt-3 block text-sm text-gray-500 font-kanit">
+              {participantName ? `ตอบในชื่อ ${participantName}` : 'ตอบแบบไม่ระบุชื่อ'}
+              <button onClick={() => setIsEditingName(true)} className="ml-2 font-bold text-[#007947] hover:underline">
+                เปลี่ยน
+              </button>
+            </div>
+          )}
+          {isClosed && (
+            <div className="mt-4 block text-[#F40000] text-sm font-bold font-kanit">
+              Session นี้ปิดรับข้อความแล้ว (This session is closed)
+            </div>
+          )}
+          {!entryStore.status().remote && (
             <div className="mt-4 inline-flex items-center px-3 py-1 rounded-full bg-orange-100 text-orange-700 text-xs font-medium border border-orange-200">
               <span className="w-2 h-2 rounded-full bg-orange-500 mr-2"></span>
-              Demo Mode: Local Storage Only
+              Offline Mode: Saved on this device
             </div>
           )}
         </div>
@@ -154,47 +410,49 @@ const InputPage: React.FC = () => {
             
             <div className="mt-8 flex items-center justify-between">
               <div className="text-sm min-h-[24px]">
-                {status === 'success' && (
-                  <span className="text-[#007947] flex items-center font-bold animate-fade-in bg-green-50 px-4 py-2 rounded-xl border border-green-100">
-                    <div className="w-5 h-5 mr-2 bg-[#007947] rounded-full flex items-center justify-center text-white text-xs">✓</div>
-                    ส่งข้อมูลเรียบร้อยแล้ว!
-                  </span>
-                )}
-                {status === 'error' && (
-                  <span className="text-[#F40000] flex items-center font-bold animate-fade-in bg-red-50 px-4 py-2 rounded-xl border border-red-100">
-                    <div className="w-5 h-5 mr-2 bg-[#F40000] rounded-full flex items-center justify-center text-white text-xs">!</div>
-                    เกิดข้อผิดพลาด โปรดลองใหม่
+                {refusal && (
+                  <span className="text-orange-700 flex items-center font-bold animate-fade-in bg-orange-50 px-4 py-2 rounded-xl border border-orange-100">
+                    <div className="w-5 h-5 mr-2 bg-orange-500 rounded-full flex items-center justify-center text-white text-xs">!</div>
+                    {describeRefusal(refusal)}
                   </span>
                 )}
               </div>
               
               <button
                 onClick={handleSubmit}
-                disabled={isSubmitting || !inputText.trim()}
+                disabled={!canSubmit}
                 className={`group relative px-10 py-4 rounded-xl font-bold text-white text-lg shadow-lg transition-all duration-300 font-kanit overflow-hidden ${
-                  isSubmitting || !inputText.trim()
+                  !canSubmit
                     ? 'bg-gray-300 cursor-not-allowed'
                     : 'bg-gradient-to-r from-[#007947] to-[#005f37] hover:shadow-[#007947]/40 hover:-translate-y-1 hover:shadow-xl active:translate-y-0'
                 }`}
               >
                 <span className="relative z-10 flex items-center">
-                   {isSubmitting ? (
-                     <>
-                       <svg className="animate-spin -ml-1 mr-3 h-5 w-5 text-white" xmlns="http://www.w3.org/2000/svg" fill="none" viewBox="0 0 24 24">
-                         <circle className="opacity-25" cx="12" cy="12" r="10" stroke="currentColor" strokeWidth="4"></circle>
-                         <path className="opacity-75" fill="currentColor" d="M4 12a8 8 0 018-8V0C5.373 0 0 5.373 0 12h4zm2 5.291A7.962 7.962 0 014 12H0c0 3.042 1.135 5.824 3 7.938l3-2.647z"></path>
-                       </svg>
-                       กำลังส่ง...
-                     </>
-                   ) : (
-                     <>
-                       ส่งข้อความ
-                       <svg className="w-5 h-5 ml-2 transform group-hover:translate-x-1 transition-transform" fill="none" stroke="currentColor" viewBox="0 0 24 24"><path strokeLinecap="round" strokeLinejoin="round" strokeWidth="2.5" d="M13 7l5 5m0 0l-5 5m5-5H6"/></svg>
-                     </>
-                   )}
+                  ส่งข้อความ
+                  <svg className="w-5 h-5 ml-2 transform group-hover:translate-x-1 transition-transform" fill="none" stroke="currentColor" viewBox="0 0 24 24"><path strokeLinecap="round" strokeLinejoin="round" strokeWidth="2.5" d="M13 7l5 5m0 0l-5 5m5-5H6"/></svg>
                 </span>
               </button>
             </div>
+
+            {outbox.length > 0 && (
+              <ul className="mt-6 pt-4 border-t border-gray-100 space-y-2">
+                {outbox.slice(-SHOWN_SUBMISSIONS).reverse().map(item => (
+                  <li key={item.id} className="flex items-center justify-between text-sm font-kanit">
+                    <span className="truncate text-gray-600 mr-3">{item.entry.input_text}</span>
+                    <span className="flex items-center flex-shrink-0 space-x-2">
+                      <span className={`px-3 py-1 rounded-lg border font-bold ${DELIVERY_STYLES[item.status]}`}>
+                        {item.status === 'delivered' ? '✓ ' : ''}{describeDelivery(item)}
+                      </span>
+                      {item.status === 'failed' && (
+                        <button onClick={() => retry(item.id)} className="px-3 py-1 rounded-lg font-bold text-[#007947] hover:bg-green-50">
+                          ลองใหม่
+                        </button>
+                      )}
+                    </span>
+                  </li>
+                ))}
+              </ul>
+            )}
           </div>
         </div>
       </div>
@@ -202,69 +460,244 @@ const InputPage: React.FC = () => {
   );
 };
 
-const LiveDisplayPage: React.FC = () => {
-  const [imageUrl, setImageUrl] = useState<string | null>(null);
-  const [entries, setEntries] = useState<string[]>([]); // Store array of strings
-  const [entryCount, setEntryCount] = useState(0);
+const LiveDisplayPage: React.FC<SessionPageProps> = ({ sessionId }) => {
+  const [words, setWords] = useState<WordFrequency[]>([]);
+  const [highlighted, setHighlighted] = useState<string[]>([]);
+  // Last layout and the settings it was made with, to keep words in place
+  const lastLayoutRef = useRef<{ words: WordFrequency[]; display: DisplaySettings } | null>(null);
+  const [entries, setEntries] = useState<WordCloudEntry[]>([]);
   const [loading, setLoading] = useState(true);
   const [lastUpdate, setLastUpdate] = useState<Date>(new Date());
+  const [unplaced, setUnplaced] = useState<UnplacedWord[]>([]);
+  const [timing, setTiming] = useState<GenerationTiming | null>(null);
+  const [progress, setProgress] = useState<number | null>(null);
+  const [openPanel, setOpenPanel] = useState<'theme' | 'sizing' | 'words' | 'qr' | 'leaderboard' | null>(null);
+  const shapeInputRef = useRef<HTMLInputElement>(null);
+  const { settings: display, updateSettings: updateDisplay } = useDisplaySettings();
+  const isRemote = entryStore.status().remote;
+  // Reported by remote stores once their subscription has synced or failed
+  const [health, setHealth] = useState<ConnectionHealth | null>(null);
+  const badge = !isRemote ? CONNECTION_BADGES.local : CONNECTION_BADGES[health?.state ?? 'connecting'];
+  const session = useSession(sessionId);
+  const { settings: loadedModeration, isLoaded: isModerationLoaded } = useModerationSettings(sessionId, MODERATION_REFRESH_MS);
+  // Until the rules arrive, unreviewed entries are held as if pre-moderated
+  const moderation = useMemo<ModerationSettings>(
+    () => isModerationLoaded ? loadedModeration : { ...loadedModeration, mode: 'pre' },
+    [loadedModeration, isModerationLoaded]
+  );
+  // Presenter commands from #/admin; display changes are kept like local ones
+  const syncedDisplayRef = useRef<Partial<DisplaySettings> | null>(null);
+  const { control } = useLiveControl(sessionId, (command) => {
+    if (command.type === 'display') updateDisplay(command.settings);
+    if (command.type === 'sync') {
+      const changed = changedDisplaySettings(syncedDisplayRef.current, command.state.display);
+      syncedDisplayRef.current = command.state.display;
+      if (Object.keys(changed).length > 0) updateDisplay(changed);
+    }
+  });
+  const { questions } = useQuestions(sessionId);
+  // 'active' follows the presenter, 'all' shows every entry, otherwise a question ID
+  const [questionView, setQuestionView] = useState<string>('active');
+  const shownQuestionId = questionView === 'active' ? control.activeQuestion?.id ?? null
+    : questionView === 'all' ? null
+    : questionView;
+  const shownQuestion = questions.find(q => q.id === shownQuestionId)
+    ?? (control.activeQuestion?.id === shownQuestionId ? control.activeQuestion : null);
 
-  // Load initial data
+  // Load initial data, retrying until the full history arrives; live entries keep flowing meanwhile
+  const [historyFailed, setHistoryFailed] = useState(false);
   useEffect(() => {
+    let retryTimer: ReturnType<typeof setTimeout> | null = null;
+    let cancelled = false;
+
     const loadInitialData = async () => {
       try {
-        const fetchedEntries = await fetchAllTexts();
+        const fetchedEntries = await entryStore.list(sessionId);
+        if (cancelled) return;
+        setHistoryFailed(false);
         if (fetchedEntries.length > 0) {
-            const textArray = fetchedEntries.map(e => e.input_text);
-            setEntries(textArray);
-            setEntryCount(fetchedEntries.length);
+            setEntries(fetchedEntries);
         }
       } catch (e) {
         console.error("Failed to load initial data", e);
+        if (cancelled) return;
+        setHistoryFailed(true);
+        retryTimer = setTimeout(loadInitialData, HISTORY_RETRY_MS);
       } finally {
-        setLoading(false);
+        if (!cancelled) setLoading(false);
       }
     };
 
     loadInitialData();
-  }, []);
+    return () => {
+      cancelled = true;
+      if (retryTimer) clearTimeout(retryTimer);
+    };
+  }, [sessionId]);
 
   // Subscribe to real-time updates
   useEffect(() => {
-    const unsubscribe = subscribeToNewEntries((newEntry: WordCloudEntry) => {
-      setEntries(prev => [newEntry.input_text, ...prev]); // Add new entry to start of array
-      setEntryCount(prev => prev + 1);
+    const unsubscribe = entryStore.subscribe(sessionId, (entry, event) => {
+      setEntries(prev => applyEntryEvent(prev, entry, event));
       setLastUpdate(new Date());
-    });
+    }, setHealth);
 
     return () => unsubscribe();
-  }, []);
+  }, [sessionId]);
+
+  // Replaying shows the event as it was at replay.at; null follows it live
+  const [replay, setReplay] = useState<ReplayState | null>(null);
+  const timeRange = useMemo(() => entryTimeRange(entries), [entries]);
+  // Clock for the rolling time window, ticking only while one is set
+  const [now, setNow] = useState(() => Date.now());
+  useEffect(() => {
+    if (!display.timeWindowMinutes || replay) return;
+    setNow(Date.now());
+    const timer = setInterval(() => setNow(Date.now()), TIME_WINDOW_TICK_MS);
+    return () => clearInterval(timer);
+  }, [display.timeWindowMinutes, replay]);
+
+  // Each playback step waits for the previous cloud to finish laying out
+  useEffect(() => {
+    if (!replay?.playing || !timeRange || loading) return;
+    const timer = setTimeout(() => {
+      setReplay(prev => {
+        if (!prev) return prev;
+        const at = Math.min(prev.at + prev.speed * REPLAY_STEP_MS, timeRange.end);
+        return { ...prev, at, playing: at < timeRange.end };
+      });
+    }, REPLAY_STEP_MS);
+    return () => clearTimeout(timer);
+  }, [replay, timeRange, loading]);
+
+  // Only entries approved under the current rules, for the shown question and time, reach the projector.
+  // A replay rebuilds the whole history, so it ignores the presenter's clear.
+  const approvedTexts = useMemo(
+    () => entries
+      .filter(e => isApproved(e, moderation) && matchesQuestion(e, shownQuestionId) &&
+        (replay ? true : isAfterClear(e, control.clearedAt)) &&
+        isInTimeSpan(e, replay?.at ?? null, display.timeWindowMinutes, now))
+      .map(e => e.input_text),
+    [entries, moderation, control.clearedAt, shownQuestionId, replay?.at, display.timeWindowMinutes, now]
+  );
+  // Freezing holds the live cloud; a replay is driven from this screen, so it keeps going
+  const isFrozen = control.paused && !replay;
+
+  // Texts behind the leaderboard; held while the presenter has frozen the display
+  const [rankedTexts, setRankedTexts] = useState<string[]>([]);
+  useEffect(() => {
+    if (!isFrozen) setRankedTexts(approvedTexts);
+  }, [approvedTexts, isFrozen]);
+
+  const { layout: boardLayout, position: boardPosition } = display.leaderboard;
+  // Counted like the cloud, but every phrase is ranked regardless of the sizing limits
+  const ranking = useMemo(
+    () => boardLayout === 'cloud' ? [] : processPhrases(rankedTexts, {
+      tokenize: displayTokenizeOptions(display),
+      normalize: { fuzzyMerge: display.fuzzyMerge },
+    }),
+    [rankedTexts, boardLayout, display.tokenizeMode, display.tokenize, display.fuzzyMerge]
+  );
+
+  // Another question's cloud is a fresh layout, not an update to highlight
+  useEffect(() => {
+    lastLayoutRef.current = null;
+  }, [shownQuestionId]);
+  const entryCount = approvedTexts.length;
+
+  const generationOptions = () => ({
+    tokenize: displayTokenizeOptions(display),
+    normalize: { fuzzyMerge: display.fuzzyMerge },
+    rotation: { mode: display.rotation },
+    shape: display.shape,
+    shapeImage: display.shapeImage,
+    theme: display.theme,
+    sizing: display.sizing
+  });
 
   // Debounced Cloud Generation
   useEffect(() => {
-    if (entries.length === 0) {
-        setImageUrl(null);
+    // Frozen by the presenter: keep the current cloud until resumed
+    if (isFrozen) return;
+    // Nothing to lay out while only the leaderboard is shown
+    if (display.leaderboard.layout === 'leaderboard') return;
+
+    if (approvedTexts.length === 0) {
+        setWords([]);
+        setUnplaced([]);
+        lastLayoutRef.current = null;
         return;
     }
 
     setLoading(true);
+    // Newer entries abort the running job instead of queueing behind it
+    const controller = new AbortController();
     const timer = setTimeout(async () => {
       try {
+        const last = lastLayoutRef.current;
+        const canKeepPositions = !!last && display.stableLayout && sameLayoutSettings(last.display, display);
+
         // Pass raw array to generator to preserve phrases
-        const blob = await generateWordCloudBlob(entries);
-        if (blob) {
-          const url = URL.createObjectURL(blob);
-          setImageUrl(url);
-        }
+        const result = await layoutWordCloudInBackground(approvedTexts, {
+          ...generationOptions(),
+          previousLayout: canKeepPositions ? last!.words : undefined,
+        }, {
+          signal: controller.signal,
+          onProgress: ({ done, total }) => setProgress(done / total),
+        });
+        if (controller.signal.aborted) return;
+
+        // Nothing left to show, e.g. every word is under the minimum count
+        const placed = result.placed ?? [];
+
+        // Highlight what just landed, but not the whole cloud on first load
+        if (last) setHighlighted(changedWords(last.words, placed));
+        lastLayoutRef.current = { words: placed, display };
+        setWords(placed);
+        setUnplaced(result.unplaced);
+        setTiming(result.timing ?? null);
       } catch(e) {
         console.error("Generation failed", e);
       } finally {
-        setLoading(false);
+        if (!controller.signal.aborted) {
+          setLoading(false);
+          setProgress(null);
+        }
       }
-    }, 800);
+    }, replay?.playing ? 0 : 800);
 
+    return () => {
+      clearTimeout(timer);
+      controller.abort();
+    };
+  }, [approvedTexts, display, isFrozen]);
+
+  // Let the highlight play once
+  useEffect(() => {
+    if (highlighted.length === 0) return;
+    const timer = setTimeout(() => setHighlighted([]), HIGHLIGHT_MS);
     return () => clearTimeout(timer);
-  }, [entries]);
+  }, [highlighted]);
+
+  const handleShapeImage = (e: React.ChangeEvent<HTMLInputElement>) => {
+    const file = e.target.files?.[0];
+    e.target.value = '';
+    if (!file) return;
+
+    const reader = new FileReader();
+    reader.onload = () => updateDisplay({ shape: 'image', shapeImage: reader.result as string });
+    reader.readAsDataURL(file);
+  };
+
+  // Downloads render the layout on screen, so they match what the room sees
+  const handleDownloadPng = async () => {
+    const blob = await renderWordCloudPng(words, display.theme);
+    if (blob) downloadBlob(blob, 'cg_risk_wordcloud.png');
+  };
+
+  const handleDownloadSvg = () => {
+    downloadBlob(renderWordCloudSvg(words, display.theme), 'cg_risk_wordcloud.svg');
+  };
 
   return (
     <div className="flex flex-col h-screen bg-white overflow-hidden font-figtree">
@@ -276,59 +709,313 @@ const LiveDisplayPage: React.FC = () => {
         <div className="flex items-center space-x-6">
             <div className="flex items-center px-2.5 py-1 bg-gray-50 rounded-lg border border-gray-100">
                 <span className="relative flex h-2 w-2 mr-2">
-                  <span className={`animate-ping absolute inline-flex h-full w-full rounded-full ${isBackendConfigured ? 'bg-[#007947]' : 'bg-yellow-400'} opacity-75`}></span>
-                  <span className={`relative inline-flex rounded-full h-2 w-2 ${isBackendConfigured ? 'bg-[#007947]' : 'bg-yellow-500'}`}></span>
+                  {badge.pulse && <span className={`animate-ping absolute inline-flex h-full w-full rounded-full ${badge.dot} opacity-75`}></span>}
+                  <span className={`relative inline-flex rounded-full h-2 w-2 ${badge.dot}`}></span>
                 </span>
-                <span className={`font-bold text-[10px] tracking-wider ${isBackendConfigured ? 'text-[#007947]' : 'text-yellow-600'}`}>
-                    {isBackendConfigured ? 'ONLINE' : 'DEMO'}
+                <span className={`font-bold text-[10px] tracking-wider ${badge.text}`}>
+                    {badge.label}
                 </span>
+                {isRemote && health?.lastSyncAt && (
+                  <span className="ml-2 font-mono text-[10px] text-gray-400" title="Last successful sync">
+                    {new Date(health.lastSyncAt).toLocaleTimeString('th-TH')}
+                  </span>
+                )}
             </div>
-            <div className="hidden md:block h-5 w-px bg-gray-100"></div>
-            <div className="flex items-baseline">
-              <span className="text-[10px] text-gray-400 uppercase tracking-widest font-bold mr-2">Total</span>
-              <span className="text-[#F40000] text-lg font-black font-kanit leading-none">{entryCount.toLocaleString()}</span>
-            </div>
+            {control.showCounter && (
+              <>
+                <div className="hidden md:block h-5 w-px bg-gray-100"></div>
+                <div className="flex items-baseline">
+                  <span className="text-[10px] text-gray-400 uppercase tracking-widest font-bold mr-2">Total</span>
+                  <span className="text-[#F40000] text-lg font-black font-kanit leading-none">{entryCount.toLocaleString()}</span>
+                </div>
+              </>
+            )}
+            {isFrozen && (
+              <span className="px-2 py-0.5 rounded-md bg-gray-100 text-[10px] font-bold tracking-wider text-gray-500">❚❚ FROZEN</span>
+            )}
+            {replay && (
+              <span className="px-2 py-0.5 rounded-md bg-[#F40000]/10 text-[10px] font-bold tracking-wider text-[#F40000]">⏱ REPLAY</span>
+            )}
+            {session && (
+              <>
+                <div className="hidden md:block h-5 w-px bg-gray-100"></div>
+                <span className="text-sm font-bold font-kanit text-[#007947]">{session.name}</span>
+              </>
+            )}
+            {shownQuestion && (
+              <>
+                <div className="hidden md:block h-5 w-px bg-gray-100"></div>
+                <span className="text-sm font-bold font-kanit text-gray-700 truncate max-w-md" title={shownQuestion.text}>{shownQuestion.text}</span>
+              </>
+            )}
         </div>
-        <div className="text-right hidden sm:block">
+        <div className="text-right hidden sm:flex items-center space-x-3">
+            {(questions.length > 0 || control.activeQuestion) && (
+              <select
+                value={questionView}
+                onChange={(e) => setQuestionView(e.target.value)}
+                title="Question shown on the cloud"
+                className="px-1.5 py-0.5 rounded-lg border border-gray-100 bg-gray-50 text-[10px] font-bold tracking-wider text-gray-500 outline-none max-w-[10rem]"
+              >
+                <option value="active">Active question</option>
+                <option value="all">All answers</option>
+                {questions.map(question => (
+                  <option key={question.id} value={question.id}>{question.text}</option>
+                ))}
+              </select>
+            )}
+            <div className="flex items-center bg-gray-50 rounded-lg border border-gray-100 p-0.5">
+              {(Object.keys(TOKENIZE_MODE_LABELS) as TokenizationMode[]).map(mode => (
+                <button
+                  key={mode}
+                  onClick={() => updateDisplay({ tokenizeMode: mode })}
+                  className={`px-2 py-0.5 rounded-md text-[10px] font-bold tracking-wider transition-colors ${
+                    display.tokenizeMode === mode ? 'bg-[#007947] text-white' : 'text-gray-400 hover:text-[#007947]'
+                  }`}
+                >
+                  {TOKENIZE_MODE_LABELS[mode]}
+                </button>
+              ))}
+            </div>
+            <button
+              onClick={() => updateDisplay({ fuzzyMerge: !display.fuzzyMerge })}
+              title="Merge near-duplicate phrases"
+              className={`px-2 py-1 rounded-lg border text-[10px] font-bold tracking-wider transition-colors ${
+                display.fuzzyMerge ? 'bg-[#007947] text-white border-[#007947]' : 'bg-gray-50 text-gray-400 border-gray-100 hover:text-[#007947]'
+              }`}
+            >
+              ≈ Merge
+            </button>
+            <button
+              onClick={() => updateDisplay({ stableLayout: !display.stableLayout })}
+              title="Keep words in place as new entries arrive"
+              className={`px-2 py-1 rounded-lg border text-[10px] font-bold tracking-wider transition-colors ${
+                display.stableLayout ? 'bg-[#007947] text-white border-[#007947]' : 'bg-gray-50 text-gray-400 border-gray-100 hover:text-[#007947]'
+              }`}
+            >
+              Stable
+            </button>
+            <div className="flex items-center bg-gray-50 rounded-lg border border-gray-100 p-0.5">
+              {(Object.keys(ROTATION_LABELS) as RotationMode[]).map(mode => (
+                <button
+                  key={mode}
+                  onClick={() => updateDisplay({ rotation: mode })}
+                  className={`px-2 py-0.5 rounded-md text-[10px] font-bold tracking-wider transition-colors ${
+                    display.rotation === mode ? 'bg-[#007947] text-white' : 'text-gray-400 hover:text-[#007947]'
+                  }`}
+                >
+                  {ROTATION_LABELS[mode]}
+                </button>
+              ))}
+            </div>
+            <select
+              value={display.shape}
+              onChange={(e) => {
+                const shape = e.target.value as ShapeName;
+                if (shape === 'image' && !display.shapeImage) {
+                  shapeInputRef.current?.click();
+                } else {
+                  updateDisplay({ shape });
+                }
+              }}
+              title="Word cloud shape"
+              className="px-1.5 py-0.5 rounded-lg border border-gray-100 bg-gray-50 text-[10px] font-bold tracking-wider text-gray-500 outline-none"
+            >
+              {(Object.keys(SHAPE_LABELS) as ShapeName[]).map(shape => (
+                <option key={shape} value={shape}>{SHAPE_LABELS[shape]}</option>
+              ))}
+            </select>
+            {display.shape === 'image' && (
+              <button
+                onClick={() => shapeInputRef.current?.click()}
+                title="Upload a PNG or SVG silhouette"
+                className="px-2 py-1 rounded-lg border border-gray-100 bg-gray-50 text-[10px] font-bold tracking-wider text-gray-400 hover:text-[#007947]"
+              >
+                Upload
+              </button>
+            )}
+            <input
+              ref={shapeInputRef}
+              type="file"
+              accept="image/png,image/svg+xml"
+              onChange={handleShapeImage}
+              className="hidden"
+            />
+            <select
+              value={display.timeWindowMinutes ?? ''}
+              onChange={(e) => updateDisplay({ timeWindowMinutes: e.target.value ? Number(e.target.value) : null })}
+              title="Only count answers from the last few minutes"
+              className="px-1.5 py-0.5 rounded-lg border border-gray-100 bg-gray-50 text-[10px] font-bold tracking-wider text-gray-500 outline-none"
+            >
+              {TIME_WINDOW_OPTIONS.map(option => (
+                <option key={option.label} value={option.minutes ?? ''}>{option.label}</option>
+              ))}
+            </select>
+            <button
+              onClick={() => setReplay(prev => prev || !timeRange ? null : { at: timeRange.end, playing: false, speed: 60 })}
+              disabled={!replay && !timeRange}
+              title="Replay the event from its first answer"
+              className={`px-2 py-1 rounded-lg border text-[10px] font-bold tracking-wider transition-colors disabled:opacity-40 ${
+                replay ? 'bg-[#007947] text-white border-[#007947]' : 'bg-gray-50 text-gray-400 border-gray-100 hover:text-[#007947]'
+              }`}
+            >
+              ⏱ Replay
+            </button>
+            <div className="relative">
+              <button
+                onClick={() => setOpenPanel(prev => prev === 'leaderboard' ? null : 'leaderboard')}
+                title="Leaderboard"
+                className={`px-2 py-1 rounded-lg border text-[10px] font-bold tracking-wider transition-colors ${
+                  boardLayout !== 'cloud' || openPanel === 'leaderboard' ? 'bg-[#007947] text-white border-[#007947]' : 'bg-gray-50 text-gray-400 border-gray-100 hover:text-[#007947]'
+                }`}
+              >
+                ☰ Board
+              </button>
+              {openPanel === 'leaderboard' && (
+                <div className="absolute right-0 top-full mt-2 z-30">
+                  <LeaderboardPanel leaderboard={display.leaderboard} onChange={(leaderboard) => updateDisplay({ leaderboard })} />
+                </div>
+              )}
+            </div>
+            <div className="relative">
+              <button
+                onClick={() => setOpenPanel(prev => prev === 'qr' ? null : 'qr')}
+                title="Join QR code"
+                className={`px-2 py-1 rounded-lg border text-[10px] font-bold tracking-wider transition-colors ${
+                  display.qr.visible || openPanel === 'qr' ? 'bg-[#007947] text-white border-[#007947]' : 'bg-gray-50 text-gray-400 border-gray-100 hover:text-[#007947]'
+                }`}
+              >
+                ▦ QR
+              </button>
+              {openPanel === 'qr' && (
+                <div className="absolute right-0 top-full mt-2 z-30">
+                  <QrPanel qr={display.qr} onChange={(qr) => updateDisplay({ qr })} />
+                </div>
+              )}
+            </div>
+            <div className="relative">
+              <button
+                onClick={() => setOpenPanel(prev => prev === 'words' ? null : 'words')}
+                title="Stop words and n-gram size for the word and n-gram modes"
+                className={`px-2 py-1 rounded-lg border text-[10px] font-bold tracking-wider transition-colors ${
+                  openPanel === 'words' ? 'bg-[#007947] text-white border-[#007947]' : 'bg-gray-50 text-gray-400 border-gray-100 hover:text-[#007947]'
+                }`}
+              >
+                ✂ Words
+              </button>
+              {openPanel === 'words' && (
+                <div className="absolute right-0 top-full mt-2 z-30">
+                  <WordsPanel tokenize={display.tokenize} onChange={(tokenize) => updateDisplay({ tokenize })} />
+                </div>
+              )}
+            </div>
+            <div className="relative">
+              <button
+                onClick={() => setOpenPanel(prev => prev === 'sizing' ? null : 'sizing')}
+                className={`px-2 py-1 rounded-lg border text-[10px] font-bold tracking-wider transition-colors ${
+                  openPanel === 'sizing' ? 'bg-[#007947] text-white border-[#007947]' : 'bg-gray-50 text-gray-400 border-gray-100 hover:text-[#007947]'
+                }`}
+              >
+                Aa Size
+              </button>
+              {openPanel === 'sizing' && (
+                <div className="absolute right-0 top-full mt-2 z-30">
+                  <SizingPanel sizing={display.sizing} onChange={(sizing) => updateDisplay({ sizing })} />
+                </div>
+              )}
+            </div>
+            <div className="relative">
+              <button
+                onClick={() => setOpenPanel(prev => prev === 'theme' ? null : 'theme')}
+                className={`px-2 py-1 rounded-lg border text-[10px] font-bold tracking-wider transition-colors ${
+                  openPanel === 'theme' ? 'bg-[#007947] text-white border-[#007947]' : 'bg-gray-50 text-gray-400 border-gray-100 hover:text-[#007947]'
+                }`}
+              >
+                🎨 {display.theme.name}
+              </button>
+              {openPanel === 'theme' && (
+                <div className="absolute right-0 top-full mt-2 z-30">
+                  <ThemePanel theme={display.theme} onChange={(theme) => updateDisplay({ theme })} />
+                </div>
+              )}
+            </div>
+            {historyFailed && (
+              <div className="px-2 py-0.5 rounded-lg bg-red-50 text-[10px] font-bold text-[#F40000]" title="Older answers could not be loaded; retrying">
+                ⚠ History incomplete
+              </div>
+            )}
+            {unplaced.length > 0 && (
+              <div className="px-2 py-0.5 rounded-lg bg-red-50 text-[10px] font-bold text-[#F40000] cursor-help" title={describeUnplaced(unplaced, timing)}>
+                ⚠ {unplaced.length} words dropped
+              </div>
+            )}
             <div className="font-mono text-[10px] font-medium text-gray-400 bg-gray-50 px-2 py-0.5 rounded">
               Last Update: {lastUpdate.toLocaleTimeString('th-TH')}
             </div>
         </div>
       </div>
 
-      {/* Main Canvas Area - Full Bleed */}
-      <div className="flex-1 relative flex items-center justify-center overflow-hidden bg-white">
-        {/* Background Pattern - Subtle Grid */}
-        <div className="absolute inset-0 opacity-[0.02]" 
-             style={{backgroundImage: 'radial-gradient(#007947 1px, transparent 1px)', backgroundSize: '30px 30px'}}>
-        </div>
+      <div className={`flex-1 relative flex overflow-hidden ${boardLayout === 'split' && boardPosition === 'bottom' ? 'flex-col' : 'flex-row'}`}>
+        {display.qr.visible && <QrOverlay url={sessionUrl(sessionId)} settings={display.qr} />}
 
-        {loading && !imageUrl ? (
-           <div className="flex flex-col items-center justify-center z-10 bg-white/90 p-12 rounded-[2rem] backdrop-blur-sm">
-             <div className="relative w-20 h-20 mb-6">
-               <div className="absolute inset-0 border-8 border-gray-50 rounded-full"></div>
-               <div className="absolute inset-0 border-8 border-[#007947] rounded-full border-t-transparent animate-spin"></div>
-             </div>
-             <p className="text-[#007947] font-kanit text-xl animate-pulse font-bold">กำลังประมวลผล...</p>
-           </div>
-        ) : !imageUrl ? (
-            <div className="text-center text-gray-200 z-10">
-                <svg className="w-40 h-40 mx-auto mb-4 opacity-30" fill="none" stroke="currentColor" viewBox="0 0 24 24"><path strokeLinecap="round" strokeLinejoin="round" strokeWidth="1" d="M8 12h.01M12 12h.01M16 12h.01M21 12c0 4.418-4.03 8-9 8a9.863 9.863 0 01-4.255-.949L3 20l1.395-3.72C3.512 15.042 3 13.574 3 12c0-4.418 4.03-8 9-8s9 3.582 9 8z"/></svg>
-                <p className="text-4xl font-kanit font-bold opacity-50">รอรับข้อความแรก</p>
-            </div>
-        ) : (
-            <div className="relative w-full h-full flex items-center justify-center animate-fade-in">
-              <img 
-                  src={imageUrl} 
-                  alt="Live Word Cloud" 
-                  className="relative w-full h-full object-contain z-10"
-              />
+        {/* Main Canvas Area - Full Bleed */}
+        {boardLayout !== 'leaderboard' && (
+          <div
+            className="flex-1 relative flex items-center justify-center overflow-hidden bg-white"
+            style={display.theme.background.type === 'color' ? { backgroundColor: display.theme.background.color } : undefined}
+          >
+            {progress !== null && (
+              <div className="absolute top-0 left-0 h-0.5 bg-[#007947] z-20 transition-all" style={{ width: `${progress * 100}%` }}></div>
+            )}
+            {/* Background Pattern - Subtle Grid */}
+            <div className="absolute inset-0 opacity-[0.02]" 
+                 style={{backgroundImage: 'radial-gradient(#007947 1px, transparent 1px)', backgroundSize: '30px 30px'}}>
             </div>
+
+            {loading && words.length === 0 ? (
+               <div className="flex flex-col items-center justify-center z-10 bg-white/90 p-12 rounded-[2rem] backdrop-blur-sm">
+                 <div className="relative w-20 h-20 mb-6">
+                   <div className="absolute inset-0 border-8 border-gray-50 rounded-full"></div>
+                   <div className="absolute inset-0 border-8 border-[#007947] rounded-full border-t-transparent animate-spin"></div>
+                 </div>
+                 <p className="text-[#007947] font-kanit text-xl animate-pulse font-bold">กำลังประมวลผล...</p>
+               </div>
+            ) : words.length === 0 ? (
+                <div className="text-center text-gray-200 z-10">
+                    <svg className="w-40 h-40 mx-auto mb-4 opacity-30" fill="none" stroke="currentColor" viewBox="0 0 24 24"><path strokeLinecap="round" strokeLinejoin="round" strokeWidth="1" d="M8 12h.01M12 12h.01M16 12h.01M21 12c0 4.418-4.03 8-9 8a9.863 9.863 0 01-4.255-.949L3 20l1.395-3.72C3.512 15.042 3 13.574 3 12c0-4.418 4.03-8 9-8s9 3.582 9 8z"/></svg>
+                    <p className="text-4xl font-kanit font-bold opacity-50">รอรับข้อความแรก</p>
+                </div>
+            ) : (
+                <div className="relative w-full h-full flex items-center justify-center animate-fade-in">
+                  <LiveCloud words={words} highlighted={highlighted} theme={display.theme} />
+                </div>
+            )}
+          </div>
+        )}
+
+        {boardLayout !== 'cloud' && (
+          <div className={
+            boardLayout === 'leaderboard' ? 'flex-1 max-w-4xl w-full mx-auto'
+              : boardPosition === 'side' ? 'w-[28rem] flex-shrink-0 border-l border-gray-100'
+              : 'h-[35%] flex-shrink-0 border-t border-gray-100'
+          }>
+            <Leaderboard words={ranking} topN={display.leaderboard.topN} theme={display.theme} />
+          </div>
         )}
       </div>
       
+      {replay && timeRange && (
+        <TimelineBar replay={replay} range={timeRange} onChange={setReplay} onExit={() => setReplay(null)} />
+      )}
+
       {/* Minimized Footer - Ultra thin */}
-      <div className="bg-white border-t border-gray-100 py-0.5 px-4 text-[9px] text-gray-300 flex justify-end items-center">
+      <div className="bg-white border-t border-gray-100 py-0.5 px-4 text-[9px] text-gray-300 flex justify-end items-center space-x-3">
+          {words.length > 0 && (
+            <>
+              <button onClick={handleDownloadPng} className="hover:text-[#007947]">PNG</button>
+              <button onClick={handleDownloadSvg} className="hover:text-[#007947]">SVG</button>
+            </>
+          )}
           <span>CG&Risk Day</span>
       </div>
     </div>
@@ -339,6 +1026,7 @@ const LiveDisplayPage: React.FC = () => {
 
 const App: React.FC = () => {
   const [currentPath, setCurrentPath] = useState(window.location.hash);
+  const route = parseRoute(currentPath);
 
   useEffect(() => {
     const handleHashChange = () => {
@@ -357,8 +1045,12 @@ const App: React.FC = () => {
       <Navbar />
       
       <main className="flex-1 flex flex-col">
-        {(currentPath === '#/' || currentPath === '') && <InputPage />}
-        {currentPath === '#/live' && <LiveDisplayPage />}
+        {route.page === 'input' && <InputPage key={route.sessionId} sessionId={route.sessionId} />}
+        {route.page === 'live' && <LiveDisplayPage key={route.sessionId} sessionId={route.sessionId} />}
+        {route.page === 'moderate' && <ModerationPage key={route.sessionId} sessionId={route.sessionId} />}
+        {route.page === 'admin' && <AdminPage key={route.sessionId} sessionId={route.sessionId} />}
+        {route.page === 'data' && <DataPage key={route.sessionId} sessionId={route.sessionId} />}
+        {route.page === 'sessions' && <SessionsPage />}
       </main>
     </div>
   );
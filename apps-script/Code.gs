@@ -0,0 +1,223 @@
+/**
+ * Google Apps Script backend for the `sheets` entry store (services/googleSheetsClient.ts).
+ *
+ * Setup: create a spreadsheet, open Extensions > Apps Script, paste this file, then
+ * Deploy > New deployment > Web app (execute as: me, who has access: anyone).
+ * Put the Web app URL in GOOGLE_SCRIPT_URL. The sheets are created on first use.
+ *
+ * GET  ?session_id=<id>[&since=<cursor>]  { entries, cursor }: rows added or changed after the cursor
+ * GET  ?action=setting&key=<key>          { value }
+ * GET  ?action=sessions                   [sessions]
+ * POST { session_id, user_name, ... }     adds an entry as pending, once per client_id
+ * POST { action: 'delete', id }
+ * POST { action: 'setStatus', id, status }
+ * POST { action: 'setSetting', key, value }
+ * POST { action: 'createSession', id, name, created_at, archived }
+ * POST { action: 'archiveSession', id, archived }
+ *
+ * Every POST answers { status: 'success', ... } or { status: 'error', message }, and a
+ * successful action echoes its name. A success without it comes from an older script that
+ * appended the request as an entry row, and the client reports that as an error.
+ */
+
+var DEFAULT_SESSION_ID = 'main';
+
+var ENTRY_COLUMNS = ['id', 'created_at', 'seq', 'session_id', 'user_name', 'input_text', 'image_url', 'status', 'question_id', 'device_id', 'client_id'];
+var SESSION_COLUMNS = ['id', 'name', 'created_at', 'archived'];
+var SETTING_COLUMNS = ['key', 'value'];
+
+// --- Sheet helpers ---
+
+function getSheet_(name, columns) {
+  var book = SpreadsheetApp.getActiveSpreadsheet();
+  var sheet = book.getSheetByName(name);
+  if (!sheet) {
+    sheet = book.insertSheet(name);
+    // Plain text everywhere, so ISO timestamps and IDs aren't turned into dates or numbers
+    sheet.getRange(1, 1, sheet.getMaxRows(), columns.length).setNumberFormat('@');
+    sheet.appendRow(columns);
+  }
+  return sheet;
+}
+
+function readRows_(sheet, columns) {
+  return sheet.getDataRange().getValues().slice(1).map(function (values, index) {
+    var row = { rowNumber: index + 2 };
+    columns.forEach(function (column, c) {
+      row[column] = values[c] === '' ? null : values[c];
+    });
+    return row;
+  });
+}
+
+function toValues_(record, columns) {
+  return columns.map(function (column) {
+    var value = record[column];
+    return value === null || value === undefined ? '' : String(value);
+  });
+}
+
+function json_(body) {
+  return ContentService.createTextOutput(JSON.stringify(body)).setMimeType(ContentService.MimeType.JSON);
+}
+
+// Change counter behind the polling cursor; every insert and status change takes the next value
+function nextSeq_() {
+  var properties = PropertiesService.getScriptProperties();
+  var seq = Number(properties.getProperty('seq') || 0) + 1;
+  properties.setProperty('seq', String(seq));
+  return seq;
+}
+
+// Entry IDs are timestamps, bumped when two entries land in the same millisecond
+function nextEntryId_() {
+  var properties = PropertiesService.getScriptProperties();
+  var id = Math.max(Date.now(), Number(properties.getProperty('lastEntryId') || 0) + 1);
+  properties.setProperty('lastEntryId', String(id));
+  return id;
+}
+
+function currentSeq_() {
+  return Number(PropertiesService.getScriptProperties().getProperty('seq') || 0);
+}
+
+function toEntry_(row) {
+  return {
+    id: Number(row.id),
+    created_at: row.created_at,
+    session_id: row.session_id,
+    user_name: row.user_name,
+    input_text: row.input_text,
+    image_url: row.image_url,
+    status: row.status || 'approved',
+    question_id: row.question_id,
+    device_id: row.device_id,
+    client_id: row.client_id,
+  };
+}
+
+function matchesSession_(row, sessionId) {
+  if (!row.session_id) return sessionId === DEFAULT_SESSION_ID;
+  return String(row.session_id) === sessionId;
+}
+
+function findRow_(sheet, columns, column, value) {
+  var rows = readRows_(sheet, columns);
+  for (var i = 0; i < rows.length; i++) {
+    if (String(rows[i][column]) === String(value)) return rows[i];
+  }
+  return null;
+}
+
+// --- GET ---
+
+function doGet(e) {
+  var params = e.parameter || {};
+
+  if (params.action === 'setting') {
+    var setting = findRow_(getSheet_('Settings', SETTING_COLUMNS), SETTING_COLUMNS, 'key', params.key);
+    return json_({ value: setting && setting.value ? JSON.parse(setting.value) : null });
+  }
+
+  if (params.action === 'sessions') {
+    var sessions = readRows_(getSheet_('Sessions', SESSION_COLUMNS), SESSION_COLUMNS).map(function (row) {
+      return { id: String(row.id), name: row.name, created_at: row.created_at, archived: String(row.archived) === 'true' };
+    });
+    return json_(sessions);
+  }
+
+  // Read the cursor first: a change landing during the read is sent again next time, never skipped
+  var cursor = currentSeq_();
+  var since = Number(params.since || 0);
+  var sessionId = params.session_id || DEFAULT_SESSION_ID;
+  var entries = readRows_(getSheet_('Entries', ENTRY_COLUMNS), ENTRY_COLUMNS)
+    .filter(function (row) { return matchesSession_(row, sessionId) && Number(row.seq || 0) > since; })
+    .map(toEntry_);
+  return json_({ entries: entries, cursor: String(cursor) });
+}
+
+// --- POST ---
+
+var ACTIONS = {
+  delete: function (body) {
+    var sheet = getSheet_('Entries', ENTRY_COLUMNS);
+    var row = findRow_(sheet, ENTRY_COLUMNS, 'id', body.id);
+    if (row) sheet.deleteRow(row.rowNumber);
+  },
+
+  setStatus: function (body) {
+    var sheet = getSheet_('Entries', ENTRY_COLUMNS);
+    var row = findRow_(sheet, ENTRY_COLUMNS, 'id', body.id);
+    if (!row) throw new Error('Entry ' + body.id + ' not found');
+    row.status = body.status;
+    row.seq = nextSeq_();
+    sheet.getRange(row.rowNumber, 1, 1, ENTRY_COLUMNS.length).setValues([toValues_(row, ENTRY_COLUMNS)]);
+  },
+
+  setSetting: function (body) {
+    var sheet = getSheet_('Settings', SETTING_COLUMNS);
+    var record = { key: body.key, value: JSON.stringify(body.value) };
+    var row = findRow_(sheet, SETTING_COLUMNS, 'key', body.key);
+    if (row) sheet.getRange(row.rowNumber, 1, 1, SETTING_COLUMNS.length).setValues([toValues_(record, SETTING_COLUMNS)]);
+    else sheet.appendRow(toValues_(record, SETTING_COLUMNS));
+  },
+
+  createSession: function (body) {
+    getSheet_('Sessions', SESSION_COLUMNS).appendRow(toValues_(body, SESSION_COLUMNS));
+  },
+
+  archiveSession: function (body) {
+    var sheet = getSheet_('Sessions', SESSION_COLUMNS);
+    var row = findRow_(sheet, SESSION_COLUMNS, 'id', body.id);
+    if (!row) throw new Error('Session ' + body.id + ' not found');
+    row.archived = body.archived ? 'true' : 'false';
+    sheet.getRange(row.rowNumber, 1, 1, SESSION_COLUMNS.length).setValues([toValues_(row, SESSION_COLUMNS)]);
+  },
+};
+
+function addEntry_(body) {
+  var sheet = getSheet_('Entries', ENTRY_COLUMNS);
+  // A retried submission that already arrived: report it as saved, don't add it again
+  if (body.client_id) {
+    var existing = findRow_(sheet, ENTRY_COLUMNS, 'client_id', body.client_id);
+    if (existing) return Number(existing.id);
+  }
+
+  var entry = {
+    id: nextEntryId_(),
+    created_at: new Date().toISOString(),
+    seq: nextSeq_(),
+    session_id: body.session_id,
+    user_name: body.user_name,
+    input_text: body.input_text,
+    image_url: body.image_url,
+    // Only setStatus (the moderation page) approves or hides; displays apply the rules to pending entries
+    status: 'pending',
+    question_id: body.question_id,
+    device_id: body.device_id,
+    client_id: body.client_id,
+  };
+  sheet.appendRow(toValues_(entry, ENTRY_COLUMNS));
+  return entry.id;
+}
+
+function doPost(e) {
+  var lock = LockService.getScriptLock();
+  lock.waitLock(10000);
+  try {
+    var body = JSON.parse(e.postData.contents);
+
+    if (!body.action) {
+      return json_({ status: 'success', id: addEntry_(body) });
+    }
+    if (!ACTIONS.hasOwnProperty(body.action)) {
+      return json_({ status: 'error', message: 'Unsupported action: ' + body.action });
+    }
+    ACTIONS[body.action](body);
+    return json_({ status: 'success', action: body.action });
+  } catch (error) {
+    return json_({ status: 'error', message: String(error && error.message || error) });
+  } finally {
+    lock.releaseLock();
+  }
+}
@@ -0,0 +1,235 @@
+import React, { useState } from 'react';
+import { THEME_PRESETS } from '../constants';
+import { useSession } from '../hooks/useSession';
+import { useLiveControl } from '../hooks/useLiveControl';
+import { useQuestions } from '../hooks/useQuestions';
+import { sessionPath } from '../utils/routes';
+import { buildQuestion } from '../utils/questions';
+import { DisplaySettings, LiveCommand, Question, RotationMode, TokenizationMode } from '../types';
+
+interface AdminPageProps {
+  sessionId: string;
+}
+
+const TOKENIZE_OPTIONS: { mode: TokenizationMode; label: string }[] = [
+  { mode: 'phrase', label: 'Phrase' },
+  { mode: 'word', label: 'Word' },
+  { mode: 'ngram', label: 'N-gram' },
+];
+
+const ROTATION_OPTIONS: { mode: RotationMode; label: string }[] = [
+  { mode: 'none', label: 'Flat' },
+  { mode: 'orthogonal', label: '0/90°' },
+  { mode: 'random', label: 'Random°' },
+];
+
+const optionClass = (active: boolean) =>
+  `flex-1 px-3 py-3 rounded-xl text-sm font-bold transition-all ${
+    active ? 'bg-[#007947] text-white shadow-md' : 'bg-gray-50 text-gray-500 border border-gray-100'
+  }`;
+
+/**
+ * Presenter remote for a session's live displays, laid out for a phone.
+ * Commands go to every open #/live page of the session through the store's realtime channel.
+ */
+const AdminPage: React.FC<AdminPageProps> = ({ sessionId }) => {
+  const session = useSession(sessionId);
+  const { control, sendCommand } = useLiveControl(sessionId);
+  const { questions, saveQuestions } = useQuestions(sessionId);
+  const [isSending, setIsSending] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+  const [questionText, setQuestionText] = useState('');
+  const [questionLimit, setQuestionLimit] = useState('');
+
+  const send = async (command: LiveCommand) => {
+    setIsSending(true);
+    setError(null);
+    const { error } = await sendCommand(command);
+    setIsSending(false);
+    if (error) setError('ส่งคำสั่งไม่สำเร็จ โปรดลองใหม่');
+  };
+
+  const sendDisplay = (settings: Partial<DisplaySettings>) => send({ type: 'display', settings });
+
+  const handleAddQuestion = async () => {
+    if (!questionText.trim()) return;
+    setError(null);
+    const question = buildQuestion(questionText, Number(questionLimit) || null);
+    const { error } = await saveQuestions([...questions, question]);
+    if (error) {
+      setError('บันทึกคำถามไม่สำเร็จ โปรดลองใหม่');
+      return;
+    }
+    setQuestionText('');
+    setQuestionLimit('');
+  };
+
+  const handleDeleteQuestion = async (question: Question) => {
+    setError(null);
+    const { error } = await saveQuestions(questions.filter(q => q.id !== question.id));
+    if (error) {
+      setError('ลบคำถามไม่สำเร็จ โปรดลองใหม่');
+      return;
+    }
+    // Answers keep their question_id; the question just stops being asked
+    if (control.activeQuestion?.id === question.id) send({ type: 'question', question: null });
+  };
+
+  const handleClear = () => {
+    if (window.confirm('ล้างกระดานตอนนี้? ข้อความเดิมจะถูกซ่อน (กู้คืนได้)')) {
+      send({ type: 'clear', at: new Date().toISOString() });
+    }
+  };
+
+  return (
+    <div className="min-h-screen pt-24 pb-12 px-4 flex flex-col items-center">
+      <div className="max-w-md w-full animate-fade-in space-y-4">
+        <div className="text-center mb-4">
+          <h2 className="text-4xl font-black text-[#007947] font-kanit tracking-tight mb-2 drop-shadow-sm">
+            Presenter
+          </h2>
+          <p className="text-gray-600 font-light font-kanit">
+            {session ? session.name : 'Main session'} · <a href={sessionPath(sessionId, 'live')} className="underline">Live display</a>
+          </p>
+        </div>
+
+        {error && (
+          <p className="text-center text-sm font-bold text-[#F40000]">{error}</p>
+        )}
+
+        <div className="bg-white p-5 rounded-3xl shadow-[0_20px_50px_-12px_rgba(0,0,0,0.1)] border border-gray-100 space-y-3">
+          <button
+            onClick={() => send({ type: control.paused ? 'resume' : 'pause' })}
+            disabled={isSending}
+            className={`w-full py-5 rounded-2xl text-xl font-black font-kanit text-white transition-all ${
+              control.paused ? 'bg-[#007947]' : 'bg-[#F40000]'
+            }`}
+          >
+            {control.paused ? '▶ Resume updates' : '❚❚ Freeze display'}
+          </button>
+          <div className="flex space-x-3">
+            <button
+              onClick={handleClear}
+              disabled={isSending}
+              className="flex-1 py-3 rounded-xl text-sm font-bold text-gray-700 bg-gray-100"
+            >
+              Clear board
+            </button>
+            <button
+              onClick={() => send({ type: 'restore' })}
+              disabled={isSending || !control.clearedAt}
+              className={`flex-1 py-3 rounded-xl text-sm font-bold ${control.clearedAt ? 'text-[#007947] bg-green-50' : 'text-gray-300 bg-gray-50'}`}
+            >
+              Restore cleared
+            </button>
+          </div>
+          {control.clearedAt && (
+            <p className="text-xs text-gray-400 text-center">
+              Showing entries after {new Date(control.clearedAt).toLocaleTimeString('th-TH')}
+            </p>
+          )}
+          <button
+            onClick={() => send({ type: 'counter', visible: !control.showCounter })}
+            disabled={isSending}
+            className={optionClass(control.showCounter) + ' w-full'}
+          >
+            Counter: {control.showCounter ? 'shown' : 'hidden'}
+          </button>
+        </div>
+
+        <div className="bg-white p-5 rounded-3xl border border-gray-100 space-y-3">
+          <div className="text-xs text-gray-400 uppercase tracking-widest font-bold">Questions</div>
+          {questions.length === 0 && (
+            <p className="text-sm text-gray-400 font-kanit">ยังไม่มีคำถาม · entries go into one cloud</p>
+          )}
+          {questions.map(question => {
+            const isActive = control.activeQuestion?.id === question.id;
+            return (
+              <div key={question.id} className={`p-3 rounded-2xl border ${isActive ? 'border-[#007947] bg-green-50' : 'border-gray-100'}`}>
+                <div className="font-kanit text-gray-800 break-words">{question.text}</div>
+                <div className="mt-2 flex items-center space-x-2">
+                  <button
+                    onClick={() => send({ type: 'question', question: isActive ? null : question })}
+                    disabled={isSending}
+                    className={`flex-1 py-2 rounded-xl text-sm font-bold ${isActive ? 'bg-[#007947] text-white' : 'bg-gray-100 text-gray-700'}`}
+                  >
+                    {isActive ? '● Active · stop asking' : 'Ask now'}
+                  </button>
+                  <span className="text-xs text-gray-400 w-20 text-center">
+                    {question.maxAnswers ? `${question.maxAnswers} per person` : 'No limit'}
+                  </span>
+                  <button onClick={() => handleDeleteQuestion(question)} className="px-3 py-2 rounded-xl text-sm font-bold text-gray-500 bg-gray-50">
+                    Delete
+                  </button>
+                </div>
+              </div>
+            );
+          })}
+          <div className="flex space-x-2">
+            <input
+              value={questionText}
+              onChange={(e) => setQuestionText(e.target.value)}
+              onKeyDown={(e) => { if (e.key === 'Enter') handleAddQuestion(); }}
+              className="flex-1 min-w-0 px-3 py-2 rounded-xl border-2 border-gray-200 focus:border-[#007947] outline-none font-kanit"
+              placeholder="คำถามใหม่..."
+            />
+            <input
+              type="number"
+              min={1}
+              value={questionLimit}
+              onChange={(e) => setQuestionLimit(e.target.value)}
+              title="Answers per person (empty for no limit)"
+              className="w-16 px-2 py-2 rounded-xl border-2 border-gray-200 focus:border-[#007947] outline-none text-sm"
+              placeholder="Max"
+            />
+            <button
+              onClick={handleAddQuestion}
+              disabled={!questionText.trim()}
+              className={`px-4 py-2 rounded-xl text-sm font-bold text-white ${questionText.trim() ? 'bg-[#007947]' : 'bg-gray-300'}`}
+            >
+              Add
+            </button>
+          </div>
+        </div>
+
+        <div className="bg-white p-5 rounded-3xl border border-gray-100 space-y-4">
+          <div>
+            <div className="text-xs text-gray-400 uppercase tracking-widest font-bold mb-2">Split answers</div>
+            <div className="flex space-x-2">
+              {TOKENIZE_OPTIONS.map(option => (
+                <button key={option.mode} onClick={() => sendDisplay({ tokenizeMode: option.mode })} disabled={isSending}
+                  className={optionClass(control.display.tokenizeMode === option.mode)}>
+                  {option.label}
+                </button>
+              ))}
+            </div>
+          </div>
+          <div>
+            <div className="text-xs text-gray-400 uppercase tracking-widest font-bold mb-2">Rotation</div>
+            <div className="flex space-x-2">
+              {ROTATION_OPTIONS.map(option => (
+                <button key={option.mode} onClick={() => sendDisplay({ rotation: option.mode })} disabled={isSending}
+                  className={optionClass(control.display.rotation === option.mode)}>
+                  {option.label}
+                </button>
+              ))}
+            </div>
+          </div>
+          <div>
+            <div className="text-xs text-gray-400 uppercase tracking-widest font-bold mb-2">Theme</div>
+            <div className="grid grid-cols-2 gap-2">
+              {THEME_PRESETS.map(theme => (
+                <button key={theme.id} onClick={() => sendDisplay({ theme })} disabled={isSending}
+                  className={optionClass(control.display.theme?.id === theme.id)}>
+                  {theme.name}
+                </button>
+              ))}
+            </div>
+          </div>
+        </div>
+      </div>
+    </div>
+  );
+};
+
+export default AdminPage;
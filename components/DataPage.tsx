@@ -0,0 +1,242 @@
+import React, { useState, useEffect, useRef } from 'react';
+import { entryStore } from '../services/entryStore';
+import { ANONYMOUS_NAME } from '../constants';
+import { useSession } from '../hooks/useSession';
+import { useDisplaySettings } from '../hooks/useDisplaySettings';
+import { useModerationSettings } from '../hooks/useModerationSettings';
+import { processPhrases, renderWordCloudSvg } from '../utils/wordCloudGenerator';
+import { displayTokenizeOptions } from '../utils/tokenizer';
+import { generateWordCloudInBackground } from '../utils/backgroundGeneration';
+import { downloadBlob } from '../utils/download';
+import { isApproved } from '../utils/moderation';
+import { createClientId } from '../utils/entries';
+import { csvBlob, decodeTextFile, entriesToCsv, entriesToJson, frequenciesToCsv, parseImportedAnswers } from '../utils/dataTransfer';
+import { WordCloudEntry } from '../types';
+import ResultDisplay from './ResultDisplay';
+
+interface DataPageProps {
+  sessionId: string;
+}
+
+const cardClass = 'bg-white p-6 rounded-3xl shadow-[0_20px_50px_-12px_rgba(0,0,0,0.1)] border border-gray-100';
+const buttonClass = 'px-4 py-2 rounded-xl text-sm font-bold text-[#007947] bg-green-50 hover:bg-green-100 disabled:text-gray-300 disabled:bg-gray-50';
+
+/**
+ * Export of a session's entries and phrase counts, and import of answers from a file,
+ * either into the session or into a standalone cloud that never reaches the store.
+ */
+const DataPage: React.FC<DataPageProps> = ({ sessionId }) => {
+  const session = useSession(sessionId);
+  const { settings: display } = useDisplaySettings();
+  const { settings: moderation } = useModerationSettings(sessionId);
+  const [entries, setEntries] = useState<WordCloudEntry[]>([]);
+  const [loading, setLoading] = useState(true);
+  const [error, setError] = useState<string | null>(null);
+  // Each answer keeps its client_id, so retrying the ones that failed can't duplicate them
+  const [imported, setImported] = useState<{ fileName: string; answers: string[]; clientIds: string[] } | null>(null);
+  const [importProgress, setImportProgress] = useState<number | null>(null);
+  const [isGenerating, setIsGenerating] = useState(false);
+  const [cloudUrl, setCloudUrl] = useState<string | null>(null);
+  const [svgUrl, setSvgUrl] = useState<string | null>(null);
+  const fileInputRef = useRef<HTMLInputElement>(null);
+
+  useEffect(() => {
+    entryStore.list(sessionId)
+      .then(setEntries)
+      // Exporting part of the history would pass for all of it
+      .catch(() => setError('โหลดข้อความได้ไม่ครบ โปรดรีเฟรชก่อนส่งออก'))
+      .finally(() => setLoading(false));
+  }, [sessionId]);
+
+  // Release the standalone cloud when it is replaced or the page closes
+  useEffect(() => {
+    return () => {
+      if (cloudUrl) URL.revokeObjectURL(cloudUrl);
+    };
+  }, [cloudUrl]);
+  useEffect(() => {
+    return () => {
+      if (svgUrl) URL.revokeObjectURL(svgUrl);
+    };
+  }, [svgUrl]);
+
+  const fileBase = `wordcloud_${sessionId}`;
+  const phraseOptions = {
+    tokenize: displayTokenizeOptions(display),
+    normalize: { fuzzyMerge: display.fuzzyMerge },
+  };
+
+  const handleExportFrequencies = () => {
+    // Counted the way the live display counts them: approved entries, current tokenizing
+    const words = processPhrases(entries.filter(entry => isApproved(entry, moderation)).map(e => e.input_text), phraseOptions);
+    downloadBlob(csvBlob(frequenciesToCsv(words)), `${fileBase}_frequencies.csv`);
+  };
+
+  const handleFile = async (e: React.ChangeEvent<HTMLInputElement>) => {
+    const file = e.target.files?.[0];
+    e.target.value = '';
+    if (!file) return;
+
+    setError(null);
+    try {
+      const answers = parseImportedAnswers(decodeTextFile(await file.arrayBuffer()), file.name);
+      if (answers.length === 0) {
+        setError('ไม่พบข้อความในไฟล์');
+        return;
+      }
+      setImported({ fileName: file.name, answers, clientIds: answers.map(() => createClientId()) });
+    } catch (err) {
+      console.error('Error reading import file:', err);
+      setError('อ่านไฟล์ไม่สำเร็จ');
+    }
+  };
+
+  const handleImportToSession = async () => {
+    if (!imported) return;
+    setError(null);
+
+    const failed: number[] = [];
+    for (let i = 0; i < imported.answers.length; i++) {
+      setImportProgress(i);
+      const { error } = await entryStore.save({
+        session_id: sessionId,
+        user_name: ANONYMOUS_NAME,
+        input_text: imported.answers[i],
+        image_url: null,
+        // Moderated like answers from the submission page (see displayStatus)
+        status: 'pending',
+        question_id: null,
+        device_id: null,
+        client_id: imported.clientIds[i],
+      });
+      if (error) failed.push(i);
+    }
+    setImportProgress(null);
+
+    if (failed.length > 0) {
+      setError(`นำเข้าไม่สำเร็จ ${failed.length} จาก ${imported.answers.length} ข้อความ กดเพิ่มอีกครั้งเพื่อลองใหม่`);
+      setImported({
+        fileName: imported.fileName,
+        answers: failed.map(i => imported.answers[i]),
+        clientIds: failed.map(i => imported.clientIds[i]),
+      });
+    } else {
+      setImported(null);
+    }
+    try {
+      setEntries(await entryStore.list(sessionId));
+    } catch {
+      setError('โหลดข้อความได้ไม่ครบ โปรดรีเฟรชก่อนส่งออก');
+    }
+  };
+
+  const handleGenerateCloud = async () => {
+    if (!imported) return;
+    setIsGenerating(true);
+    setError(null);
+
+    try {
+      const result = await generateWordCloudInBackground(imported.answers, {
+        ...phraseOptions,
+        rotation: { mode: display.rotation },
+        shape: display.shape,
+        shapeImage: display.shapeImage,
+        theme: display.theme,
+        sizing: display.sizing,
+      });
+
+      if (!result.success || !result.blob) {
+        setError('สร้าง Word Cloud ไม่สำเร็จ');
+        return;
+      }
+      setCloudUrl(URL.createObjectURL(result.blob));
+      // Same layout as the PNG, drawn as editable text
+      setSvgUrl(result.placed ? URL.createObjectURL(renderWordCloudSvg(result.placed, display.theme)) : null);
+    } catch (err) {
+      console.error('Error generating imported cloud:', err);
+      setError('สร้าง Word Cloud ไม่สำเร็จ');
+    } finally {
+      setIsGenerating(false);
+    }
+  };
+
+  return (
+    <div className="min-h-screen pt-24 pb-12 px-4 flex flex-col items-center">
+      <div className="max-w-3xl w-full animate-fade-in space-y-6">
+        <div className="text-center mb-2">
+          <h2 className="text-5xl font-black text-[#007947] font-kanit tracking-tight mb-4 drop-shadow-sm">
+            Data
+          </h2>
+          <p className="text-xl text-gray-600 font-light font-kanit">
+            {session ? session.name : 'Main session'} · ส่งออกและนำเข้าข้อความ
+          </p>
+        </div>
+
+        {error && (
+          <p className="text-center text-sm font-bold text-[#F40000]">{error}</p>
+        )}
+
+        <div className={cardClass}>
+          <h3 className="text-lg font-bold text-gray-700 mb-1 font-kanit">Export</h3>
+          <p className="text-sm text-gray-400 mb-4">
+            {loading ? 'Loading entries…' : `${entries.length} entries, including pending and hidden`}
+          </p>
+          <div className="flex flex-wrap gap-2">
+            <button onClick={() => downloadBlob(csvBlob(entriesToCsv(entries)), `${fileBase}_entries.csv`)} disabled={loading} className={buttonClass}>
+              Entries CSV
+            </button>
+            <button
+              onClick={() => downloadBlob(new Blob([entriesToJson(entries)], { type: 'application/json' }), `${fileBase}_entries.json`)}
+              disabled={loading}
+              className={buttonClass}
+            >
+              Entries JSON
+            </button>
+            <button onClick={handleExportFrequencies} disabled={loading} className={buttonClass}>
+              Frequency table CSV
+            </button>
+          </div>
+        </div>
+
+        <div className={cardClass}>
+          <h3 className="text-lg font-bold text-gray-700 mb-1 font-kanit">Import</h3>
+          <p className="text-sm text-gray-400 mb-4">
+            CSV (a text, answer or ข้อความ column, or the first column) or plain text with one answer per line.
+            UTF-8, UTF-16 and Thai Windows-874 files are supported.
+          </p>
+          <input ref={fileInputRef} type="file" accept=".csv,.txt,text/csv,text/plain" onChange={handleFile} className="hidden" />
+          <button onClick={() => fileInputRef.current?.click()} className={buttonClass}>
+            Choose file…
+          </button>
+
+          {imported && (
+            <div className="mt-4 p-4 rounded-2xl bg-gray-50 border border-gray-100">
+              <div className="text-sm font-bold text-gray-700">
+                {imported.fileName} · {imported.answers.length} answers
+              </div>
+              <ul className="mt-2 text-sm text-gray-500 font-kanit list-disc list-inside">
+                {imported.answers.slice(0, 5).map((answer, i) => <li key={i} className="truncate">{answer}</li>)}
+                {imported.answers.length > 5 && <li>…</li>}
+              </ul>
+              <div className="mt-4 flex flex-wrap gap-2">
+                <button onClick={handleImportToSession} disabled={importProgress !== null || isGenerating} className={buttonClass}>
+                  {importProgress !== null ? `Adding ${importProgress + 1}/${imported.answers.length}…` : 'Add to this session'}
+                </button>
+                <button onClick={handleGenerateCloud} disabled={importProgress !== null || isGenerating} className={buttonClass}>
+                  Standalone cloud only
+                </button>
+                <button onClick={() => setImported(null)} disabled={importProgress !== null} className="px-4 py-2 rounded-xl text-sm font-bold text-gray-500 hover:bg-gray-100">
+                  Cancel
+                </button>
+              </div>
+            </div>
+          )}
+
+          <ResultDisplay imageUrl={cloudUrl} svgUrl={svgUrl} loading={isGenerating} caption="ไม่ได้บันทึกลง Session" />
+        </div>
+      </div>
+    </div>
+  );
+};
+
+export default DataPage;
@@ -0,0 +1,79 @@
+import React, { useState } from 'react';
+import { NameMode } from '../types';
+
+interface JoinScreenProps {
+  nameMode: NameMode;
+  initialName: string;
+  sessionName?: string;
+  // Called with the trimmed name, or an empty string when the participant skips
+  onJoin: (name: string) => void;
+}
+
+/**
+ * First-visit screen asking for a name before the participant can answer.
+ */
+const JoinScreen: React.FC<JoinScreenProps> = ({ nameMode, initialName, sessionName, onJoin }) => {
+  const [name, setName] = useState(initialName);
+  const canJoin = nameMode !== 'required' || name.trim().length > 0;
+
+  const handleJoin = () => {
+    if (canJoin) onJoin(name.trim());
+  };
+
+  return (
+    <div className="min-h-screen pt-24 pb-12 px-4 flex flex-col items-center justify-center">
+      <div className="max-w-md w-full animate-fade-in">
+        <div className="text-center mb-8">
+          <h2 className="text-5xl font-black text-[#007947] font-kanit tracking-tight mb-4 drop-shadow-sm">
+            ยินดีต้อนรับ
+          </h2>
+          <p className="text-xl text-gray-600 font-light font-kanit">
+            {nameMode === 'required' ? 'กรุณาใส่ชื่อก่อนร่วมแสดงความคิดเห็น' : 'ใส่ชื่อของคุณ หรือข้ามเพื่อไม่ระบุชื่อ'}
+          </p>
+          {sessionName && (
+            <div className="mt-4 inline-flex items-center px-4 py-1.5 rounded-full bg-[#007947]/10 text-[#007947] text-sm font-bold font-kanit border border-[#007947]/20">
+              {sessionName}
+            </div>
+          )}
+        </div>
+
+        <div className="bg-white p-6 rounded-3xl shadow-[0_20px_50px_-12px_rgba(0,121,71,0.15)] border border-gray-100">
+          <label htmlFor="participant-name" className="block text-lg font-bold text-gray-700 mb-3 font-kanit">
+            ชื่อของคุณ (Your Name)
+          </label>
+          <input
+            id="participant-name"
+            value={name}
+            onChange={(e) => setName(e.target.value)}
+            onKeyDown={(e) => { if (e.key === 'Enter') handleJoin(); }}
+            autoFocus
+            maxLength={60}
+            className="w-full px-4 py-3 rounded-xl border-2 border-gray-200 focus:border-[#007947] focus:ring-4 focus:ring-[#007947]/10 outline-none font-kanit text-lg"
+            placeholder="ชื่อ-นามสกุล"
+          />
+          <p className="mt-2 text-xs text-gray-400 font-kanit">
+            ชื่อจะไม่แสดงบน Word Cloud · Your name is never shown on the screen
+          </p>
+          <div className="mt-6 flex items-center justify-end space-x-3">
+            {nameMode === 'optional' && (
+              <button onClick={() => onJoin('')} className="px-5 py-3 rounded-xl font-bold text-gray-500 hover:bg-gray-100 font-kanit">
+                ข้าม (Skip)
+              </button>
+            )}
+            <button
+              onClick={handleJoin}
+              disabled={!canJoin}
+              className={`px-8 py-3 rounded-xl font-bold text-white font-kanit transition-all ${
+                canJoin ? 'bg-gradient-to-r from-[#007947] to-[#005f37] hover:shadow-lg' : 'bg-gray-300 cursor-not-allowed'
+              }`}
+            >
+              เข้าร่วม
+            </button>
+          </div>
+        </div>
+      </div>
+    </div>
+  );
+};
+
+export default JoinScreen;
@@ -0,0 +1,66 @@
+import React from 'react';
+import { Theme, WordFrequency } from '../types';
+
+interface LeaderboardProps {
+  // Counted phrases, most frequent first (see processPhrases)
+  words: WordFrequency[];
+  topN: number;
+  theme: Theme;
+}
+
+// Row pitch in rem; rows are positioned by rank so they can slide when the order changes
+const ROW_HEIGHT = 3.5;
+
+/**
+ * Ranked list of the most frequent phrases with counts, share of all counts and bars
+ * scaled to the leader. Rows are keyed by text, so a phrase that overtakes another
+ * slides up and its bar grows (transitions in index.html).
+ */
+const Leaderboard: React.FC<LeaderboardProps> = ({ words, topN, theme }) => {
+  const total = words.reduce((sum, word) => sum + word.count, 0);
+  const top = words.slice(0, topN);
+  const leaderCount = top[0]?.count || 1;
+
+  return (
+    <div className="h-full overflow-y-auto px-6 py-4 bg-white font-kanit">
+      <div className="flex justify-between items-baseline mb-3">
+        <span className="text-[10px] text-gray-400 uppercase tracking-widest font-bold">Top {top.length}</span>
+        <span className="text-[10px] text-gray-400 uppercase tracking-widest font-bold">{total.toLocaleString()} total</span>
+      </div>
+      <div className="relative" style={{ height: `${top.length * ROW_HEIGHT}rem` }}>
+        {top.map((word, rank) => {
+          const share = total > 0 ? (word.count / total) * 100 : 0;
+          const color = theme.palette[rank % theme.palette.length];
+          return (
+            <div
+              key={word.text}
+              className="leaderboard-row absolute inset-x-0 top-0"
+              style={{ transform: `translateY(${rank * ROW_HEIGHT}rem)`, height: `${ROW_HEIGHT}rem` }}
+            >
+              <div className="animate-fade-in">
+                <div className="flex items-baseline justify-between">
+                  <span className="text-lg font-bold text-gray-800 truncate mr-3">
+                    <span className="text-gray-300 mr-2 tabular-nums">{rank + 1}</span>
+                    {word.text}
+                  </span>
+                  <span className="flex-shrink-0 tabular-nums">
+                    <span className="text-lg font-black text-gray-800">{word.count.toLocaleString()}</span>
+                    <span className="ml-2 text-sm text-gray-400">{share.toFixed(1)}%</span>
+                  </span>
+                </div>
+                <div className="h-2 rounded-full bg-gray-100 overflow-hidden">
+                  <div
+                    className="leaderboard-bar h-full rounded-full"
+                    style={{ width: `${(word.count / leaderCount) * 100}%`, backgroundColor: color }}
+                  ></div>
+                </div>
+              </div>
+            </div>
+          );
+        })}
+      </div>
+    </div>
+  );
+};
+
+export default Leaderboard;
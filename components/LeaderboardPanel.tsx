@@ -0,0 +1,73 @@
+import React from 'react';
+import { LeaderboardLayout, LeaderboardSettings } from '../types';
+
+interface LeaderboardPanelProps {
+  leaderboard: LeaderboardSettings;
+  onChange: (leaderboard: LeaderboardSettings) => void;
+}
+
+const LAYOUT_LABELS: Record<LeaderboardLayout, string> = {
+  cloud: 'Cloud',
+  split: 'Cloud + board',
+  leaderboard: 'Board',
+};
+
+const POSITION_LABELS: Record<LeaderboardSettings['position'], string> = {
+  side: 'Side',
+  bottom: 'Bottom',
+};
+
+const optionClass = (active: boolean) =>
+  `px-2.5 py-1 rounded-md text-[11px] font-bold tracking-wider transition-colors ${
+    active ? 'bg-[#007947] text-white' : 'text-gray-400 hover:text-[#007947]'
+  }`;
+
+/**
+ * Layout controls for the leaderboard: shown with or instead of the cloud, where, and how many phrases.
+ */
+const LeaderboardPanel: React.FC<LeaderboardPanelProps> = ({ leaderboard, onChange }) => {
+  return (
+    <div className="bg-white rounded-2xl shadow-xl border border-gray-100 p-4 w-72 space-y-4 text-left">
+      <div>
+        <div className="text-[10px] text-gray-400 uppercase tracking-widest font-bold mb-2">Layout</div>
+        <div className="inline-flex bg-gray-50 rounded-lg border border-gray-100 p-0.5">
+          {(Object.keys(LAYOUT_LABELS) as LeaderboardLayout[]).map(layout => (
+            <button key={layout} onClick={() => onChange({ ...leaderboard, layout })} className={optionClass(leaderboard.layout === layout)}>
+              {LAYOUT_LABELS[layout]}
+            </button>
+          ))}
+        </div>
+      </div>
+
+      {leaderboard.layout === 'split' && (
+        <div>
+          <div className="text-[10px] text-gray-400 uppercase tracking-widest font-bold mb-2">Position</div>
+          <div className="inline-flex bg-gray-50 rounded-lg border border-gray-100 p-0.5">
+            {(Object.keys(POSITION_LABELS) as LeaderboardSettings['position'][]).map(position => (
+              <button key={position} onClick={() => onChange({ ...leaderboard, position })} className={optionClass(leaderboard.position === position)}>
+                {POSITION_LABELS[position]}
+              </button>
+            ))}
+          </div>
+        </div>
+      )}
+
+      <label className="block">
+        <span className="block text-[10px] text-gray-400 uppercase tracking-widest font-bold mb-1">Top N</span>
+        <input
+          type="number"
+          min={1}
+          max={50}
+          value={leaderboard.topN}
+          onChange={(e) => {
+            const value = Number(e.target.value);
+            if (Number.isFinite(value) && value >= 1) onChange({ ...leaderboard, topN: Math.min(50, Math.floor(value)) });
+          }}
+          className="w-24 px-2 py-1.5 rounded-lg border border-gray-200 text-sm outline-none focus:border-[#007947]"
+        />
+      </label>
+    </div>
+  );
+};
+
+export default LeaderboardPanel;
@@ -0,0 +1,53 @@
+import React from 'react';
+import { CANVAS_CONFIG } from '../constants';
+import { Theme, WordFrequency } from '../types';
+
+interface LiveCloudProps {
+  words: WordFrequency[];
+  // Texts of words that just arrived or grew
+  highlighted: string[];
+  theme: Theme;
+}
+
+/**
+ * Draws placed words as live SVG elements keyed by text, so when the layout changes
+ * words glide to their new spot and grow instead of the whole cloud being swapped.
+ * Transitions and the arrival/highlight animations live in index.html.
+ * The theme background is drawn inside the SVG so it lines up with downloads.
+ */
+const LiveCloud: React.FC<LiveCloudProps> = ({ words, highlighted, theme }) => {
+  return (
+    <svg
+      viewBox={`0 0 ${CANVAS_CONFIG.width} ${CANVAS_CONFIG.height}`}
+      preserveAspectRatio="xMidYMid meet"
+      className="relative w-full h-full z-10"
+      role="img"
+      aria-label="Live Word Cloud"
+    >
+      {theme.background.type === 'color' && (
+        <rect width="100%" height="100%" fill={theme.background.color} />
+      )}
+      {theme.background.type === 'image' && (
+        <image href={theme.background.src} width="100%" height="100%" preserveAspectRatio="xMidYMid slice" />
+      )}
+      <g fontFamily={theme.fontFamily} fontWeight="bold" textAnchor="middle" dominantBaseline="central">
+        {words.map(word => (
+          <g
+            key={word.text}
+            className="live-word"
+            style={{ transform: `translate(${word.x ?? 0}px, ${word.y ?? 0}px) rotate(${word.rotate ?? 0}deg)` }}
+          >
+            <text
+              className={highlighted.includes(word.text) ? 'live-word-text live-word-highlight' : 'live-word-text'}
+              style={{ fontSize: word.size, fill: word.color }}
+            >
+              {word.text}
+            </text>
+          </g>
+        ))}
+      </g>
+    </svg>
+  );
+};
+
+export default LiveCloud;
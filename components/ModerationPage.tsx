@@ -0,0 +1,257 @@
+import React, { useState, useEffect } from 'react';
+import { entryStore } from '../services/entryStore';
+import { useSession } from '../hooks/useSession';
+import { useModerationSettings } from '../hooks/useModerationSettings';
+import { displayStatus, findBlockedTerms } from '../utils/moderation';
+import { applyEntryEvent, upsertEntry } from '../utils/entries';
+import { ANONYMOUS_NAME } from '../constants';
+import { EntryStatus, ModerationMode, NameMode, SubmissionLimits, WordCloudEntry } from '../types';
+
+interface ModerationPageProps {
+  sessionId: string;
+}
+
+const TABS: { status: EntryStatus; label: string }[] = [
+  { status: 'pending', label: 'Pending' },
+  { status: 'approved', label: 'Approved' },
+  { status: 'hidden', label: 'Hidden' },
+];
+
+const MODE_LABELS: Record<ModerationMode, string> = {
+  pre: 'Pre-moderation (approve before showing)',
+  post: 'Post-moderation (show unless blocked)',
+};
+
+const NAME_MODE_LABELS: Record<NameMode, string> = {
+  anonymous: 'Anonymous',
+  optional: 'Name optional',
+  required: 'Name required',
+};
+
+const ModerationPage: React.FC<ModerationPageProps> = ({ sessionId }) => {
+  const [entries, setEntries] = useState<WordCloudEntry[]>([]);
+  const [loading, setLoading] = useState(true);
+  const [activeTab, setActiveTab] = useState<EntryStatus>('pending');
+  const [error, setError] = useState<string | null>(null);
+  const session = useSession(sessionId);
+  const { settings, saveSettings } = useModerationSettings(sessionId);
+  const [blocklistText, setBlocklistText] = useState('');
+  const [limits, setLimits] = useState<SubmissionLimits>(settings.limits);
+  const [nameMode, setNameMode] = useState<NameMode>(settings.nameMode);
+  const [isSaving, setIsSaving] = useState(false);
+
+  useEffect(() => {
+    setBlocklistText(settings.blocklist.join('\n'));
+    setLimits(settings.limits);
+    setNameMode(settings.nameMode);
+  }, [settings]);
+
+  useEffect(() => {
+    entryStore.list(sessionId)
+      .then(setEntries)
+      .catch(() => setError('โหลดข้อความได้ไม่ครบ โปรดรีเฟรชหน้านี้'))
+      .finally(() => setLoading(false));
+
+    const unsubscribe = entryStore.subscribe(sessionId, (entry, event) => {
+      setEntries(prev => applyEntryEvent(prev, entry, event));
+    });
+    return () => unsubscribe();
+  }, [sessionId]);
+
+  const handleSetStatus = async (entry: WordCloudEntry, status: EntryStatus) => {
+    if (entry.id === undefined) return;
+    setError(null);
+    const { error } = await entryStore.setStatus(entry.id, status);
+    if (error) {
+      setError('อัปเดตสถานะไม่สำเร็จ โปรดลองใหม่');
+      return;
+    }
+    setEntries(prev => upsertEntry(prev, { ...entry, status }));
+  };
+
+  const handleSaveSettings = async (mode: ModerationMode) => {
+    setIsSaving(true);
+    setError(null);
+    const blocklist = blocklistText.split('\n').map(term => term.trim()).filter(Boolean);
+    const { error } = await saveSettings({ mode, blocklist, limits, nameMode });
+    setIsSaving(false);
+    if (error) setError('บันทึกการตั้งค่าไม่สำเร็จ โปรดลองใหม่');
+  };
+
+  // Unreviewed entries are listed where the current rules put them on the live display
+  const statusOf = (entry: WordCloudEntry): EntryStatus => displayStatus(entry, settings);
+  const visibleEntries = entries.filter(entry => statusOf(entry) === activeTab);
+  const countFor = (status: EntryStatus) => entries.filter(entry => statusOf(entry) === status).length;
+
+  return (
+    <div className="min-h-screen pt-24 pb-12 px-4 flex flex-col items-center">
+      <div className="max-w-4xl w-full animate-fade-in">
+        <div className="text-center mb-8">
+          <h2 className="text-5xl font-black text-[#007947] font-kanit tracking-tight mb-4 drop-shadow-sm">
+            Moderation
+          </h2>
+          <p className="text-xl text-gray-600 font-light font-kanit">
+            {session ? session.name : 'Main session'} · เลือกข้อความที่จะแสดงบนจอ
+          </p>
+        </div>
+
+        <div className="bg-white p-6 rounded-3xl shadow-[0_20px_50px_-12px_rgba(0,0,0,0.1)] border border-gray-100 mb-6">
+          <div className="flex flex-wrap gap-2 mb-4">
+            {(Object.keys(MODE_LABELS) as ModerationMode[]).map(mode => (
+              <button
+                key={mode}
+                onClick={() => handleSaveSettings(mode)}
+                disabled={isSaving}
+                className={`px-4 py-2 rounded-xl text-sm font-bold transition-all ${
+                  settings.mode === mode ? 'bg-[#007947] text-white shadow-md' : 'bg-gray-50 text-gray-500 hover:bg-gray-100'
+                }`}
+              >
+                {MODE_LABELS[mode]}
+              </button>
+            ))}
+          </div>
+          <label htmlFor="blocklist" className="block text-sm font-bold text-gray-700 mb-2 font-kanit">
+            Blocklist (หนึ่งคำต่อบรรทัด) · entries containing these are held as pending
+          </label>
+          <textarea
+            id="blocklist"
+            value={blocklistText}
+            onChange={(e) => setBlocklistText(e.target.value)}
+            rows={3}
+            className="w-full px-4 py-3 rounded-xl border-2 border-gray-200 focus:border-[#007947] outline-none font-kanit resize-y"
+          />
+          <div className="mt-4 text-sm font-bold text-gray-700 font-kanit">
+            Submission limits (ต่ออุปกรณ์ · per device)
+          </div>
+          <p className="mt-1 text-xs text-gray-400">
+            Advisory only: each browser checks its own history, so a private window or cleared storage starts over.
+          </p>
+          <div className="mt-2 flex flex-wrap items-center gap-4 text-sm text-gray-600">
+            <label className="flex items-center">
+              Cooldown
+              <input
+                type="number"
+                min={0}
+                value={limits.cooldownSeconds}
+                onChange={(e) => setLimits(prev => ({ ...prev, cooldownSeconds: Math.max(0, Number(e.target.value) || 0) }))}
+                className="w-16 mx-2 px-2 py-1 rounded-lg border-2 border-gray-200 focus:border-[#007947] outline-none"
+              />
+              s
+            </label>
+            <label className="flex items-center">
+              Max per question
+              <input
+                type="number"
+                min={1}
+                value={limits.maxPerQuestion ?? ''}
+                onChange={(e) => setLimits(prev => ({ ...prev, maxPerQuestion: Number(e.target.value) > 0 ? Math.floor(Number(e.target.value)) : null }))}
+                placeholder="∞"
+                className="w-16 ml-2 px-2 py-1 rounded-lg border-2 border-gray-200 focus:border-[#007947] outline-none"
+              />
+            </label>
+            <label className="flex items-center">
+              <input
+                type="checkbox"
+                checked={limits.rejectDuplicates}
+                onChange={(e) => setLimits(prev => ({ ...prev, rejectDuplicates: e.target.checked }))}
+                className="mr-2 accent-[#007947]"
+              />
+              Refuse repeated answers
+            </label>
+          </div>
+          <div className="mt-4 text-sm font-bold text-gray-700 font-kanit">
+            Participant names (ชื่อผู้ตอบ · never shown on the cloud)
+          </div>
+          <div className="mt-2 flex flex-wrap gap-2">
+            {(Object.keys(NAME_MODE_LABELS) as NameMode[]).map(option => (
+              <button
+                key={option}
+                onClick={() => setNameMode(option)}
+                className={`px-3 py-1.5 rounded-lg text-sm font-bold transition-all ${
+                  nameMode === option ? 'bg-[#007947] text-white' : 'bg-gray-50 text-gray-500 hover:bg-gray-100'
+                }`}
+              >
+                {NAME_MODE_LABELS[option]}
+              </button>
+            ))}
+          </div>
+          <div className="mt-3 flex justify-between items-center">
+            <span className="text-sm font-bold text-[#F40000]">{error}</span>
+            <button
+              onClick={() => handleSaveSettings(settings.mode)}
+              disabled={isSaving}
+              className="px-5 py-2 rounded-xl text-sm font-bold text-white bg-gradient-to-r from-[#007947] to-[#005f37] hover:shadow-lg"
+            >
+              {isSaving ? 'กำลังบันทึก...' : 'Save rules'}
+            </button>
+          </div>
+        </div>
+
+        <div className="flex space-x-2 mb-4">
+          {TABS.map(tab => (
+            <button
+              key={tab.status}
+              onClick={() => setActiveTab(tab.status)}
+              className={`px-5 py-2 rounded-full text-sm font-bold transition-all ${
+                activeTab === tab.status ? 'bg-[#F40000] text-white shadow-md' : 'bg-white text-gray-500 border border-gray-100'
+              }`}
+            >
+              {tab.label} ({countFor(tab.status)})
+            </button>
+          ))}
+        </div>
+
+        {loading ? (
+          <div className="flex justify-center p-12">
+            <div className="animate-spin rounded-full h-10 w-10 border-4 border-gray-200 border-t-[#007947]"></div>
+          </div>
+        ) : visibleEntries.length === 0 ? (
+          <div className="text-center text-gray-400 font-kanit p-12 bg-white/60 rounded-3xl border border-gray-100">
+            ไม่มีข้อความ
+          </div>
+        ) : (
+          <ul className="space-y-3">
+            {visibleEntries.map(entry => {
+              const blocked = findBlockedTerms(entry.input_text, settings.blocklist);
+              return (
+                <li key={entry.id ?? entry.created_at} className="bg-white p-4 rounded-2xl border border-gray-100 shadow-sm flex items-center justify-between">
+                  <div className="min-w-0 mr-4">
+                    <div className="text-lg font-kanit text-gray-800 break-words">{entry.input_text}</div>
+                    <div className="text-xs text-gray-400">
+                      {entry.user_name && entry.user_name !== ANONYMOUS_NAME && (
+                        <span className="mr-2 font-bold text-gray-600">{entry.user_name}</span>
+                      )}
+                      {entry.created_at && new Date(entry.created_at).toLocaleTimeString('th-TH')}
+                      {blocked.length > 0 && (
+                        <span className="ml-2 text-[#F40000] font-bold">Blocked: {blocked.join(', ')}</span>
+                      )}
+                    </div>
+                  </div>
+                  <div className="flex items-center space-x-2 flex-shrink-0">
+                    {activeTab === 'pending' && (
+                      <button onClick={() => handleSetStatus(entry, 'approved')} className="px-3 py-1.5 rounded-lg text-sm font-bold text-white bg-[#007947]">
+                        Approve
+                      </button>
+                    )}
+                    {activeTab !== 'hidden' && (
+                      <button onClick={() => handleSetStatus(entry, 'hidden')} className="px-3 py-1.5 rounded-lg text-sm font-bold text-gray-600 bg-gray-100">
+                        Hide
+                      </button>
+                    )}
+                    {activeTab === 'hidden' && (
+                      <button onClick={() => handleSetStatus(entry, 'approved')} className="px-3 py-1.5 rounded-lg text-sm font-bold text-[#007947] bg-green-50">
+                        Restore
+                      </button>
+                    )}
+                  </div>
+                </li>
+              );
+            })}
+          </ul>
+        )}
+      </div>
+    </div>
+  );
+};
+
+export default ModerationPage;
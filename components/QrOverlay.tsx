@@ -0,0 +1,55 @@
+import React, { useMemo } from 'react';
+import { encodeQr } from '../utils/qrCode';
+import { QrCorner, QrOverlaySettings } from '../types';
+
+interface QrOverlayProps {
+  url: string;
+  settings: QrOverlaySettings;
+}
+
+// Light modules around the code that scanners need to find it
+const QUIET_ZONE = 4;
+
+const CORNER_CLASSES: Record<QrCorner, string> = {
+  'top-left': 'top-4 left-4',
+  'top-right': 'top-4 right-4',
+  'bottom-left': 'bottom-4 left-4',
+  'bottom-right': 'bottom-4 right-4',
+};
+
+/**
+ * QR code for the submission page, pinned to a corner of the live display.
+ */
+const QrOverlay: React.FC<QrOverlayProps> = ({ url, settings }) => {
+  const matrix = useMemo(() => encodeQr(url), [url]);
+  const viewSize = matrix.length + QUIET_ZONE * 2;
+
+  // One path for all dark modules keeps the DOM small
+  const path = useMemo(() => matrix.flatMap((row, y) => row.flatMap((dark, x) => (
+    dark ? [`M${x + QUIET_ZONE} ${y + QUIET_ZONE}h1v1h-1z`] : []
+  ))).join(''), [matrix]);
+
+  return (
+    <div className={`absolute z-20 ${CORNER_CLASSES[settings.corner]} bg-white rounded-2xl shadow-xl border border-gray-100 p-2 text-center animate-fade-in`}>
+      <svg
+        width={settings.size}
+        height={settings.size}
+        viewBox={`0 0 ${viewSize} ${viewSize}`}
+        shapeRendering="crispEdges"
+        role="img"
+        aria-label={url}
+      >
+        <rect width={viewSize} height={viewSize} fill="#ffffff" />
+        <path d={path} fill="#000000" />
+      </svg>
+      <div className="font-kanit font-bold text-[#007947] text-sm" style={{ maxWidth: settings.size }}>
+        สแกนเพื่อส่งข้อความ
+      </div>
+      <div className="font-mono text-[10px] text-gray-400 break-all" style={{ maxWidth: settings.size }}>
+        {url.replace(/^https?:\/\//, '')}
+      </div>
+    </div>
+  );
+};
+
+export default QrOverlay;
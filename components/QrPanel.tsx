@@ -0,0 +1,68 @@
+import React from 'react';
+import { QrCorner, QrOverlaySettings } from '../types';
+
+interface QrPanelProps {
+  qr: QrOverlaySettings;
+  onChange: (qr: QrOverlaySettings) => void;
+}
+
+const CORNER_LABELS: Record<QrCorner, string> = {
+  'top-left': '↖ Top left',
+  'top-right': '↗ Top right',
+  'bottom-left': '↙ Bottom left',
+  'bottom-right': '↘ Bottom right',
+};
+
+const MIN_SIZE = 120;
+const MAX_SIZE = 480;
+
+/**
+ * Controls for the join QR code on the live display: shown or not, size and corner.
+ */
+const QrPanel: React.FC<QrPanelProps> = ({ qr, onChange }) => {
+  return (
+    <div className="bg-white rounded-2xl shadow-xl border border-gray-100 p-4 w-64 space-y-4 text-left">
+      <label className="flex items-center text-sm font-bold text-gray-600">
+        <input
+          type="checkbox"
+          checked={qr.visible}
+          onChange={(e) => onChange({ ...qr, visible: e.target.checked })}
+          className="mr-2 accent-[#007947]"
+        />
+        Show join QR code
+      </label>
+
+      <label className="block">
+        <span className="block text-[10px] text-gray-400 uppercase tracking-widest font-bold mb-1">Size ({qr.size}px)</span>
+        <input
+          type="range"
+          min={MIN_SIZE}
+          max={MAX_SIZE}
+          step={20}
+          value={qr.size}
+          onChange={(e) => onChange({ ...qr, size: Number(e.target.value) })}
+          className="w-full accent-[#007947]"
+        />
+      </label>
+
+      <div>
+        <div className="text-[10px] text-gray-400 uppercase tracking-widest font-bold mb-2">Corner</div>
+        <div className="grid grid-cols-2 gap-1">
+          {(Object.keys(CORNER_LABELS) as QrCorner[]).map(corner => (
+            <button
+              key={corner}
+              onClick={() => onChange({ ...qr, corner })}
+              className={`px-2 py-1 rounded-md text-[11px] font-bold tracking-wider transition-colors ${
+                qr.corner === corner ? 'bg-[#007947] text-white' : 'bg-gray-50 text-gray-400 hover:text-[#007947]'
+              }`}
+            >
+              {CORNER_LABELS[corner]}
+            </button>
+          ))}
+        </div>
+      </div>
+    </div>
+  );
+};
+
+export default QrPanel;
@@ -2,10 +2,13 @@ import React from 'react';
 
 interface ResultDisplayProps {
   imageUrl: string | null;
+  svgUrl?: string | null;
   loading: boolean;
+  // Shown next to the downloads
+  caption?: string;
 }
 
-const ResultDisplay: React.FC<ResultDisplayProps> = ({ imageUrl, loading }) => {
+const ResultDisplay: React.FC<ResultDisplayProps> = ({ imageUrl, svgUrl, loading, caption = 'บันทึกสำเร็จ' }) => {
   if (loading) {
     return (
       <div className="mt-10 flex flex-col items-center justify-center p-12 border border-gray-200 rounded-3xl bg-white/50 backdrop-blur-sm min-h-[300px] shadow-sm">
@@ -38,16 +41,28 @@ const ResultDisplay: React.FC<ResultDisplayProps> = ({ imageUrl, loading }) => {
           <svg className="w-4 h-4 mr-1.5" fill="none" stroke="currentColor" viewBox="0 0 24 24">
             <path strokeLinecap="round" strokeLinejoin="round" strokeWidth="2.5" d="M5 13l4 4L19 7" />
           </svg>
-          บันทึกสำเร็จ
+          {caption}
         </span>
-        <a 
-          href={imageUrl} 
-          download="cg_risk_wordcloud.png"
-          className="text-white bg-[#F40000] hover:bg-[#d00000] text-sm font-bold transition-all px-6 py-3 rounded-xl shadow-lg shadow-red-200 hover:shadow-red-300 hover:-translate-y-0.5 active:translate-y-0 flex items-center"
-        >
-          <svg className="w-4 h-4 mr-2" fill="none" stroke="currentColor" viewBox="0 0 24 24"><path strokeLinecap="round" strokeLinejoin="round" strokeWidth="2" d="M4 16v1a3 3 0 003 3h10a3 3 0 003-3v-1m-4-4l-4 4m0 0l-4-4m4 4V4"/></svg>
-          Download PNG
-        </a>
+        <div className="flex items-center space-x-3">
+          {svgUrl && (
+            <a 
+              href={svgUrl} 
+              download="cg_risk_wordcloud.svg"
+              className="text-[#F40000] bg-white border-2 border-[#F40000] hover:bg-red-50 text-sm font-bold transition-all px-6 py-3 rounded-xl hover:-translate-y-0.5 active:translate-y-0 flex items-center"
+            >
+              <svg className="w-4 h-4 mr-2" fill="none" stroke="currentColor" viewBox="0 0 24 24"><path strokeLinecap="round" strokeLinejoin="round" strokeWidth="2" d="M4 16v1a3 3 0 003 3h10a3 3 0 003-3v-1m-4-4l-4 4m0 0l-4-4m4 4V4"/></svg>
+              Download SVG
+            </a>
+          )}
+          <a 
+            href={imageUrl} 
+            download="cg_risk_wordcloud.png"
+            className="text-white bg-[#F40000] hover:bg-[#d00000] text-sm font-bold transition-all px-6 py-3 rounded-xl shadow-lg shadow-red-200 hover:shadow-red-300 hover:-translate-y-0.5 active:translate-y-0 flex items-center"
+          >
+            <svg className="w-4 h-4 mr-2" fill="none" stroke="currentColor" viewBox="0 0 24 24"><path strokeLinecap="round" strokeLinejoin="round" strokeWidth="2" d="M4 16v1a3 3 0 003 3h10a3 3 0 003-3v-1m-4-4l-4 4m0 0l-4-4m4 4V4"/></svg>
+            Download PNG
+          </a>
+        </div>
       </div>
     </div>
   );
@@ -0,0 +1,165 @@
+import React, { useState, useEffect } from 'react';
+import { entryStore } from '../services/entryStore';
+import { sessionPath } from '../utils/routes';
+import { EventSession } from '../types';
+
+const SessionsPage: React.FC = () => {
+  const [sessions, setSessions] = useState<EventSession[]>([]);
+  const [newName, setNewName] = useState('');
+  const [loading, setLoading] = useState(true);
+  const [isCreating, setIsCreating] = useState(false);
+  const [showArchived, setShowArchived] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  const loadSessions = async () => {
+    const list = await entryStore.listSessions();
+    setSessions(list);
+    setLoading(false);
+  };
+
+  useEffect(() => {
+    loadSessions();
+  }, []);
+
+  const handleCreate = async () => {
+    if (!newName.trim()) return;
+
+    setIsCreating(true);
+    setError(null);
+    const { data, error } = await entryStore.createSession(newName);
+    setIsCreating(false);
+
+    if (error || !data) {
+      setError('สร้าง Session ไม่สำเร็จ โปรดลองใหม่');
+      return;
+    }
+
+    setNewName('');
+    setSessions(prev => [data, ...prev]);
+  };
+
+  const handleArchive = async (session: EventSession) => {
+    const { error } = await entryStore.setSessionArchived(session.id, !session.archived);
+    if (error) {
+      setError('อัปเดต Session ไม่สำเร็จ โปรดลองใหม่');
+      return;
+    }
+    setSessions(prev => prev.map(s => s.id === session.id ? { ...s, archived: !s.archived } : s));
+  };
+
+  const visibleSessions = sessions.filter(s => showArchived || !s.archived);
+  const archivedCount = sessions.filter(s => s.archived).length;
+
+  return (
+    <div className="min-h-screen pt-24 pb-12 px-4 flex flex-col items-center">
+      <div className="max-w-3xl w-full animate-fade-in">
+        <div className="text-center mb-8">
+          <h2 className="text-5xl font-black text-[#007947] font-kanit tracking-tight mb-4 drop-shadow-sm">
+            Sessions
+          </h2>
+          <p className="text-xl text-gray-600 font-light font-kanit">
+            แต่ละ Session มีลิงก์และ Word Cloud ของตัวเอง
+          </p>
+        </div>
+
+        <div className="bg-white p-6 rounded-3xl shadow-[0_20px_50px_-12px_rgba(0,0,0,0.1)] border border-gray-100 mb-6">
+          <label htmlFor="session-name" className="block text-lg font-bold text-gray-700 mb-3 font-kanit">
+            สร้าง Session ใหม่ (New Session)
+          </label>
+          <div className="flex space-x-3">
+            <input
+              id="session-name"
+              value={newName}
+              onChange={(e) => setNewName(e.target.value)}
+              onKeyDown={(e) => { if (e.key === 'Enter') handleCreate(); }}
+              className="flex-1 px-4 py-3 rounded-xl border-2 border-gray-200 focus:border-[#007947] focus:ring-4 focus:ring-[#007947]/10 outline-none font-kanit text-lg"
+              placeholder="เช่น Morning Workshop"
+            />
+            <button
+              onClick={handleCreate}
+              disabled={isCreating || !newName.trim()}
+              className={`px-6 py-3 rounded-xl font-bold text-white font-kanit transition-all ${
+                isCreating || !newName.trim()
+                  ? 'bg-gray-300 cursor-not-allowed'
+                  : 'bg-gradient-to-r from-[#007947] to-[#005f37] hover:shadow-lg'
+              }`}
+            >
+              {isCreating ? 'กำลังสร้าง...' : 'สร้าง'}
+            </button>
+          </div>
+          {error && (
+            <p className="mt-3 text-sm font-bold text-[#F40000]">{error}</p>
+          )}
+        </div>
+
+        <div className="flex justify-between items-center mb-3 px-2">
+          <span className="text-sm text-gray-500 font-bold">{visibleSessions.length} sessions</span>
+          {archivedCount > 0 && (
+            <button
+              onClick={() => setShowArchived(prev => !prev)}
+              className="text-sm text-gray-500 hover:text-[#007947] font-bold"
+            >
+              {showArchived ? 'Hide archived' : `Show archived (${archivedCount})`}
+            </button>
+          )}
+        </div>
+
+        {loading ? (
+          <div className="flex justify-center p-12">
+            <div className="animate-spin rounded-full h-10 w-10 border-4 border-gray-200 border-t-[#007947]"></div>
+          </div>
+        ) : visibleSessions.length === 0 ? (
+          <div className="text-center text-gray-400 font-kanit p-12 bg-white/60 rounded-3xl border border-gray-100">
+            ยังไม่มี Session
+          </div>
+        ) : (
+          <ul className="space-y-3">
+            {visibleSessions.map(session => (
+              <li
+                key={session.id}
+                className={`bg-white p-5 rounded-2xl border border-gray-100 shadow-sm flex items-center justify-between ${session.archived ? 'opacity-60' : ''}`}
+              >
+                <div>
+                  <div className="font-bold text-lg font-kanit text-gray-800">
+                    {session.name}
+                    {session.archived && (
+                      <span className="ml-2 px-2 py-0.5 rounded-md text-xs bg-gray-100 text-gray-500 align-middle">Archived</span>
+                    )}
+                  </div>
+                  <div className="text-xs text-gray-400 font-mono">
+                    {sessionPath(session.id)} · {new Date(session.created_at).toLocaleString('th-TH')}
+                  </div>
+                </div>
+                <div className="flex items-center space-x-2">
+                  <a href={sessionPath(session.id)} className="px-3 py-1.5 rounded-lg text-sm font-bold text-[#007947] hover:bg-green-50">
+                    Input
+                  </a>
+                  <a href={sessionPath(session.id, 'live')} className="px-3 py-1.5 rounded-lg text-sm font-bold text-[#007947] hover:bg-green-50">
+                    Live
+                  </a>
+                  <a href={sessionPath(session.id, 'moderate')} className="px-3 py-1.5 rounded-lg text-sm font-bold text-[#007947] hover:bg-green-50">
+                    Moderate
+                  </a>
+                  <a href={sessionPath(session.id, 'admin')} className="px-3 py-1.5 rounded-lg text-sm font-bold text-[#007947] hover:bg-green-50">
+                    Admin
+                  </a>
+                  <a href={sessionPath(session.id, 'data')} className="px-3 py-1.5 rounded-lg text-sm font-bold text-[#007947] hover:bg-green-50">
+                    Data
+                  </a>
+                  <button
+                    onClick={() => handleArchive(session)}
+                    className="px-3 py-1.5 rounded-lg text-sm font-bold text-gray-500 hover:bg-gray-100"
+                  >
+                    {session.archived ? 'Restore' : 'Archive'}
+                  </button>
+                </div>
+              </li>
+            ))}
+          </ul>
+        )}
+      </div>
+    </div>
+  );
+};
+
+export default SessionsPage;
@@ -0,0 +1,78 @@
+import React from 'react';
+import { DEFAULT_SIZING_OPTIONS } from '../constants';
+import { ScalingMode, SizingOptions } from '../types';
+
+interface SizingPanelProps {
+  sizing: SizingOptions;
+  onChange: (sizing: SizingOptions) => void;
+}
+
+const SCALING_LABELS: Record<ScalingMode, string> = {
+  linear: 'Linear',
+  sqrt: '√ Sqrt',
+  log: 'Log',
+  rank: 'Rank',
+};
+
+const NUMBER_FIELDS: { key: keyof Omit<SizingOptions, 'scaling'>; label: string; min: number; max: number; step: number }[] = [
+  { key: 'minFontSize', label: 'Min size (px)', min: 10, max: 400, step: 10 },
+  { key: 'maxFontSize', label: 'Max size (px)', min: 20, max: 1000, step: 10 },
+  { key: 'maxWords', label: 'Max words', min: 1, max: 500, step: 1 },
+  { key: 'minCount', label: 'Min count', min: 1, max: 50, step: 1 },
+];
+
+/**
+ * Font sizing controls for the live display: the count-to-size curve, size range,
+ * how many words to show and how often a word must appear.
+ */
+const SizingPanel: React.FC<SizingPanelProps> = ({ sizing, onChange }) => {
+  return (
+    <div className="bg-white rounded-2xl shadow-xl border border-gray-100 p-4 w-72 space-y-4 text-left">
+      <div>
+        <div className="text-[10px] text-gray-400 uppercase tracking-widest font-bold mb-2">Scaling</div>
+        <div className="inline-flex bg-gray-50 rounded-lg border border-gray-100 p-0.5">
+          {(Object.keys(SCALING_LABELS) as ScalingMode[]).map(mode => (
+            <button
+              key={mode}
+              onClick={() => onChange({ ...sizing, scaling: mode })}
+              className={`px-2.5 py-1 rounded-md text-[11px] font-bold tracking-wider transition-colors ${
+                sizing.scaling === mode ? 'bg-[#007947] text-white' : 'text-gray-400 hover:text-[#007947]'
+              }`}
+            >
+              {SCALING_LABELS[mode]}
+            </button>
+          ))}
+        </div>
+      </div>
+
+      <div className="grid grid-cols-2 gap-3">
+        {NUMBER_FIELDS.map(field => (
+          <label key={field.key} className="block">
+            <span className="block text-[10px] text-gray-400 uppercase tracking-widest font-bold mb-1">{field.label}</span>
+            <input
+              type="number"
+              min={field.min}
+              max={field.max}
+              step={field.step}
+              value={sizing[field.key]}
+              onChange={(e) => {
+                const value = Number(e.target.value);
+                if (Number.isFinite(value) && value >= field.min) onChange({ ...sizing, [field.key]: value });
+              }}
+              className="w-full px-2 py-1.5 rounded-lg border border-gray-200 text-sm outline-none focus:border-[#007947]"
+            />
+          </label>
+        ))}
+      </div>
+
+      <button
+        onClick={() => onChange(DEFAULT_SIZING_OPTIONS)}
+        className="text-[11px] font-bold text-gray-400 hover:text-[#007947]"
+      >
+        Reset to defaults
+      </button>
+    </div>
+  );
+};
+
+export default SizingPanel;
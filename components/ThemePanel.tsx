@@ -0,0 +1,174 @@
+import React, { useRef } from 'react';
+import { FONT_FAMILIES, THEME_PRESETS } from '../constants';
+import { ColorMode, Theme, ThemeBackground } from '../types';
+
+interface ThemePanelProps {
+  theme: Theme;
+  onChange: (theme: Theme) => void;
+}
+
+const COLOR_MODE_LABELS: Record<ColorMode, string> = {
+  random: 'Random',
+  rank: 'By rank',
+  gradient: 'Gradient',
+};
+
+const BACKGROUND_LABELS: Record<ThemeBackground['type'], string> = {
+  color: 'Color',
+  transparent: 'Transparent',
+  image: 'Image',
+};
+
+// Colors offered when adding to a palette, cycling through the brand colors
+const NEW_COLOR_CHOICES = ['#007947', '#F40000', '#1E293B'];
+
+const segmentClass = (active: boolean) =>
+  `px-2.5 py-1 rounded-md text-[11px] font-bold tracking-wider transition-colors ${
+    active ? 'bg-[#007947] text-white' : 'text-gray-400 hover:text-[#007947]'
+  }`;
+
+/**
+ * Theme picker for the live display: presets plus a custom palette, color mode,
+ * background and font. Any edit turns the theme into a custom one.
+ */
+const ThemePanel: React.FC<ThemePanelProps> = ({ theme, onChange }) => {
+  const imageInputRef = useRef<HTMLInputElement>(null);
+
+  const customize = (changes: Partial<Theme>) => {
+    onChange({ ...theme, ...changes, id: 'custom', name: 'Custom' });
+  };
+
+  const setPaletteColor = (index: number, color: string) => {
+    customize({ palette: theme.palette.map((c, i) => i === index ? color : c) });
+  };
+
+  const handleBackgroundImage = (e: React.ChangeEvent<HTMLInputElement>) => {
+    const file = e.target.files?.[0];
+    e.target.value = '';
+    if (!file) return;
+
+    const reader = new FileReader();
+    reader.onload = () => customize({ background: { type: 'image', src: reader.result as string } });
+    reader.readAsDataURL(file);
+  };
+
+  const handleBackgroundType = (type: ThemeBackground['type']) => {
+    if (type === 'image') {
+      imageInputRef.current?.click();
+    } else if (type === 'color') {
+      customize({ background: { type: 'color', color: '#ffffff' } });
+    } else {
+      customize({ background: { type: 'transparent' } });
+    }
+  };
+
+  return (
+    <div className="bg-white rounded-2xl shadow-xl border border-gray-100 p-4 w-80 space-y-4 text-left">
+      <div>
+        <div className="text-[10px] text-gray-400 uppercase tracking-widest font-bold mb-2">Preset</div>
+        <div className="flex flex-wrap gap-1.5">
+          {THEME_PRESETS.map(preset => (
+            <button
+              key={preset.id}
+              onClick={() => onChange(preset)}
+              className={`px-2.5 py-1 rounded-lg border text-[11px] font-bold transition-colors ${
+                theme.id === preset.id ? 'border-[#007947] text-[#007947] bg-green-50' : 'border-gray-100 text-gray-500 hover:border-gray-300'
+              }`}
+            >
+              {preset.name}
+            </button>
+          ))}
+          {theme.id === 'custom' && (
+            <span className="px-2.5 py-1 rounded-lg border border-[#007947] text-[11px] font-bold text-[#007947] bg-green-50">Custom</span>
+          )}
+        </div>
+      </div>
+
+      <div>
+        <div className="text-[10px] text-gray-400 uppercase tracking-widest font-bold mb-2">Palette</div>
+        <div className="flex flex-wrap items-center gap-1.5">
+          {theme.palette.map((color, index) => (
+            <div key={index} className="relative group">
+              <input
+                type="color"
+                value={color}
+                onChange={(e) => setPaletteColor(index, e.target.value)}
+                className="w-7 h-7 rounded cursor-pointer border border-gray-200"
+              />
+              {theme.palette.length > 1 && (
+                <button
+                  onClick={() => customize({ palette: theme.palette.filter((_, i) => i !== index) })}
+                  title="Remove color"
+                  className="absolute -top-1.5 -right-1.5 hidden group-hover:flex w-4 h-4 rounded-full bg-gray-700 text-white text-[9px] items-center justify-center"
+                >
+                  ×
+                </button>
+              )}
+            </div>
+          ))}
+          <button
+            onClick={() => customize({ palette: [...theme.palette, NEW_COLOR_CHOICES[theme.palette.length % NEW_COLOR_CHOICES.length]] })}
+            title="Add color"
+            className="w-7 h-7 rounded border border-dashed border-gray-300 text-gray-400 hover:text-[#007947] hover:border-[#007947]"
+          >
+            +
+          </button>
+        </div>
+      </div>
+
+      <div>
+        <div className="text-[10px] text-gray-400 uppercase tracking-widest font-bold mb-2">Colors</div>
+        <div className="inline-flex bg-gray-50 rounded-lg border border-gray-100 p-0.5">
+          {(Object.keys(COLOR_MODE_LABELS) as ColorMode[]).map(mode => (
+            <button key={mode} onClick={() => customize({ colorMode: mode })} className={segmentClass(theme.colorMode === mode)}>
+              {COLOR_MODE_LABELS[mode]}
+            </button>
+          ))}
+        </div>
+      </div>
+
+      <div>
+        <div className="text-[10px] text-gray-400 uppercase tracking-widest font-bold mb-2">Background</div>
+        <div className="flex items-center space-x-2">
+          <div className="inline-flex bg-gray-50 rounded-lg border border-gray-100 p-0.5">
+            {(Object.keys(BACKGROUND_LABELS) as ThemeBackground['type'][]).map(type => (
+              <button key={type} onClick={() => handleBackgroundType(type)} className={segmentClass(theme.background.type === type)}>
+                {BACKGROUND_LABELS[type]}
+              </button>
+            ))}
+          </div>
+          {theme.background.type === 'color' && (
+            <input
+              type="color"
+              value={theme.background.color}
+              onChange={(e) => customize({ background: { type: 'color', color: e.target.value } })}
+              className="w-7 h-7 rounded cursor-pointer border border-gray-200"
+            />
+          )}
+        </div>
+        <input
+          ref={imageInputRef}
+          type="file"
+          accept="image/png,image/jpeg,image/svg+xml"
+          onChange={handleBackgroundImage}
+          className="hidden"
+        />
+      </div>
+
+      <div>
+        <div className="text-[10px] text-gray-400 uppercase tracking-widest font-bold mb-2">Font</div>
+        <select
+          value={theme.fontFamily}
+          onChange={(e) => customize({ fontFamily: e.target.value })}
+          className="w-full px-2 py-1.5 rounded-lg border border-gray-200 text-sm outline-none focus:border-[#007947]"
+        >
+          {FONT_FAMILIES.map(font => (
+            <option key={font.value} value={font.value}>{font.label}</option>
+          ))}
+        </select>
+      </div>
+    </div>
+  );
+};
+
+export default ThemePanel;
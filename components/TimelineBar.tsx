@@ -0,0 +1,65 @@
+import React from 'react';
+import { ReplayState } from '../types';
+
+interface TimelineBarProps {
+  replay: ReplayState;
+  // Earliest and latest entry times, epoch ms
+  range: { start: number; end: number };
+  onChange: (replay: ReplayState) => void;
+  onExit: () => void;
+}
+
+const SPEEDS = [10, 30, 60, 120, 300];
+
+const formatTime = (time: number) => new Date(time).toLocaleTimeString('th-TH');
+
+/**
+ * Replay controls under the live cloud: a slider over the event's time range,
+ * play/pause and playback speed.
+ */
+const TimelineBar: React.FC<TimelineBarProps> = ({ replay, range, onChange, onExit }) => {
+  const atEnd = replay.at >= range.end;
+
+  const handlePlay = () => {
+    // Playing from the end starts over
+    onChange({ ...replay, at: atEnd ? range.start : replay.at, playing: !replay.playing });
+  };
+
+  return (
+    <div className="bg-white border-t border-gray-100 px-6 py-2 flex items-center space-x-4 z-10">
+      <button
+        onClick={handlePlay}
+        className="w-9 h-9 flex-shrink-0 rounded-full bg-[#007947] text-white text-sm font-bold flex items-center justify-center"
+        title={replay.playing ? 'Pause' : 'Play'}
+      >
+        {replay.playing ? '❚❚' : '▶'}
+      </button>
+      <span className="font-mono text-[10px] text-gray-400">{formatTime(range.start)}</span>
+      <input
+        type="range"
+        min={range.start}
+        max={range.end}
+        step={1000}
+        value={Math.min(Math.max(replay.at, range.start), range.end)}
+        onChange={(e) => onChange({ ...replay, at: Number(e.target.value), playing: false })}
+        className="flex-1 accent-[#007947]"
+        aria-label="Replay time"
+      />
+      <span className="font-mono text-[10px] text-gray-400">{formatTime(range.end)}</span>
+      <span className="font-mono text-sm font-bold text-[#007947] w-20 text-center">{formatTime(replay.at)}</span>
+      <select
+        value={replay.speed}
+        onChange={(e) => onChange({ ...replay, speed: Number(e.target.value) })}
+        title="Playback speed"
+        className="px-1.5 py-0.5 rounded-lg border border-gray-100 bg-gray-50 text-[10px] font-bold tracking-wider text-gray-500 outline-none"
+      >
+        {SPEEDS.map(speed => <option key={speed} value={speed}>{speed}×</option>)}
+      </select>
+      <button onClick={onExit} className="px-2 py-1 rounded-lg bg-[#F40000] text-white text-[10px] font-bold tracking-wider">
+        ● Back to live
+      </button>
+    </div>
+  );
+};
+
+export default TimelineBar;
@@ -0,0 +1,92 @@
+import React, { useState, useEffect } from 'react';
+import { DEFAULT_TOKENIZE_SETTINGS } from '../constants';
+import { StopWordLanguage, TokenizeSettings } from '../types';
+
+interface WordsPanelProps {
+  tokenize: TokenizeSettings;
+  onChange: (tokenize: TokenizeSettings) => void;
+}
+
+const LANGUAGE_LABELS: Record<StopWordLanguage, string> = {
+  th: 'ไทย',
+  en: 'English',
+};
+
+const parseStopWords = (text: string): string[] =>
+  Array.from(new Set(text.split(/[\n,]/).map(word => word.trim()).filter(Boolean)));
+
+/**
+ * Word splitting controls for the live display: which built-in stop-word lists apply,
+ * extra stop words of the organizer's own and the n-gram length.
+ * Used by the 'word' and 'ngram' modes; whole phrases are never filtered.
+ */
+const WordsPanel: React.FC<WordsPanelProps> = ({ tokenize, onChange }) => {
+  // Edited as text and applied on blur, so a half-typed word doesn't reflow the cloud
+  const [customText, setCustomText] = useState(tokenize.customStopWords.join('\n'));
+  useEffect(() => {
+    setCustomText(tokenize.customStopWords.join('\n'));
+  }, [tokenize.customStopWords]);
+
+  const toggleLanguage = (language: StopWordLanguage) => {
+    const languages = tokenize.stopWordLanguages.includes(language)
+      ? tokenize.stopWordLanguages.filter(l => l !== language)
+      : [...tokenize.stopWordLanguages, language];
+    onChange({ ...tokenize, stopWordLanguages: languages });
+  };
+
+  return (
+    <div className="bg-white rounded-2xl shadow-xl border border-gray-100 p-4 w-72 space-y-4 text-left">
+      <div>
+        <div className="text-[10px] text-gray-400 uppercase tracking-widest font-bold mb-2">Built-in stop words</div>
+        <div className="inline-flex bg-gray-50 rounded-lg border border-gray-100 p-0.5">
+          {(Object.keys(LANGUAGE_LABELS) as StopWordLanguage[]).map(language => (
+            <button
+              key={language}
+              onClick={() => toggleLanguage(language)}
+              className={`px-2.5 py-1 rounded-md text-[11px] font-bold tracking-wider transition-colors ${
+                tokenize.stopWordLanguages.includes(language) ? 'bg-[#007947] text-white' : 'text-gray-400 hover:text-[#007947]'
+              }`}
+            >
+              {LANGUAGE_LABELS[language]}
+            </button>
+          ))}
+        </div>
+      </div>
+
+      <label className="block">
+        <span className="block text-[10px] text-gray-400 uppercase tracking-widest font-bold mb-1">Custom stop words (one per line)</span>
+        <textarea
+          value={customText}
+          onChange={(e) => setCustomText(e.target.value)}
+          onBlur={() => onChange({ ...tokenize, customStopWords: parseStopWords(customText) })}
+          rows={4}
+          className="w-full px-2 py-1.5 rounded-lg border border-gray-200 text-sm outline-none focus:border-[#007947] font-kanit resize-y"
+        />
+      </label>
+
+      <label className="block">
+        <span className="block text-[10px] text-gray-400 uppercase tracking-widest font-bold mb-1">Words per n-gram</span>
+        <input
+          type="number"
+          min={2}
+          max={5}
+          value={tokenize.ngramSize}
+          onChange={(e) => {
+            const value = Math.floor(Number(e.target.value));
+            if (value >= 2 && value <= 5) onChange({ ...tokenize, ngramSize: value });
+          }}
+          className="w-full px-2 py-1.5 rounded-lg border border-gray-200 text-sm outline-none focus:border-[#007947]"
+        />
+      </label>
+
+      <button
+        onClick={() => onChange(DEFAULT_TOKENIZE_SETTINGS)}
+        className="text-[11px] font-bold text-gray-400 hover:text-[#007947]"
+      >
+        Reset to defaults
+      </button>
+    </div>
+  );
+};
+
+export default WordsPanel;
@@ -1,13 +1,60 @@
+import {
+  DisplaySettings, LiveControlState, ModerationSettings, SizingOptions, StopWordLanguage, Theme, TokenizeSettings
+} from './types';
+
 export const CANVAS_CONFIG = {
   width: 3200, // Increased for 4K/Large screen crispness
   height: 1800, // Adjusted to 16:9 aspect ratio
-  fontFamily: 'Kanit, Figtree, sans-serif',
 };
 
-export const STOP_WORDS = new Set([
-  // Stop words are generally not removed when in "Whole Phrase" mode, 
-  // but keeping the list in case logic reverts.
-]);
+// Same stylesheet as index.html; workers don't see document fonts, so they load it themselves
+export const FONT_STYLESHEET_URL =
+  'https://fonts.googleapis.com/css2?family=Figtree:wght@300;400;500;600;700;800&family=Kanit:wght@200;300;400;500;600;700&display=swap';
+
+// Session used by the plain #/ and #/live routes. Entries saved before sessions existed belong here.
+export const DEFAULT_SESSION_ID = 'main';
+
+// Starting rules for a session until an organizer saves their own on #/moderate
+export const DEFAULT_MODERATION_SETTINGS: ModerationSettings = {
+  mode: 'post',
+  blocklist: [],
+  limits: {
+    cooldownSeconds: 10,
+    maxPerQuestion: null,
+    rejectDuplicates: true,
+  },
+  nameMode: 'anonymous',
+};
+
+// user_name of entries sent without a name
+export const ANONYMOUS_NAME = 'Anonymous User';
+
+// Live displays start running and showing everything until the presenter changes it on #/admin
+export const DEFAULT_LIVE_CONTROL: LiveControlState = {
+  paused: false,
+  clearedAt: null,
+  showCounter: true,
+  activeQuestion: null,
+  display: {},
+};
+
+// Stop words are not removed in "Whole Phrase" mode, only when splitting into words or n-grams.
+// English entries are compared in lower case.
+export const STOP_WORDS: Record<StopWordLanguage, string[]> = {
+  th: [
+    'และ', 'ที่', 'ของ', 'ใน', 'เป็น', 'มี', 'ได้', 'ไม่', 'ให้', 'ก็', 'จะ', 'กับ', 'แต่', 'หรือ',
+    'ว่า', 'นี้', 'นั้น', 'คือ', 'ไป', 'มา', 'แล้ว', 'อยู่', 'ซึ่ง', 'เรา', 'คุณ', 'ผม', 'ฉัน',
+    'ครับ', 'ค่ะ', 'คะ', 'นะ', 'จ้า', 'อย่าง', 'โดย', 'ต้อง', 'ถ้า', 'เพราะ', 'ด้วย', 'ยัง', 'จาก',
+    'เมื่อ', 'อีก', 'เลย', 'มาก', 'ทุก', 'ๆ', 'กัน', 'ๆๆ', 'แค่', 'เพื่อ', 'ถึง', 'ตาม', 'จึง',
+  ],
+  en: [
+    'a', 'an', 'the', 'and', 'or', 'but', 'if', 'of', 'to', 'in', 'on', 'at', 'by', 'for', 'with',
+    'from', 'as', 'is', 'are', 'was', 'were', 'be', 'been', 'being', 'am', 'it', 'its', 'this',
+    'that', 'these', 'those', 'i', 'me', 'my', 'we', 'our', 'you', 'your', 'he', 'she', 'they',
+    'them', 'their', 'do', 'does', 'did', 'have', 'has', 'had', 'will', 'would', 'can', 'could',
+    'should', 'so', 'not', 'no', 'very', 'too', 'just', 'all', 'more', 'most', 'about', 'into',
+  ],
+};
 
 // Theme Colors: Green #007947, Red #F40000
 export const COLORS = [
@@ -17,4 +64,95 @@ export const COLORS = [
   '#D00000', // Darker Red variation
   '#004628', // Deep Green
   '#B30000', // Deep Red
-];
\ No newline at end of file
+];
+
+// Fonts loaded by index.html (and by the generation worker); Kanit covers Thai in every stack
+export const FONT_FAMILIES: { label: string; value: string }[] = [
+  { label: 'Kanit', value: 'Kanit, Figtree, sans-serif' },
+  { label: 'Figtree', value: 'Figtree, Kanit, sans-serif' },
+  { label: 'Serif', value: 'Georgia, Kanit, serif' },
+];
+
+export const THEME_PRESETS: Theme[] = [
+  {
+    id: 'cg-risk',
+    name: 'CG&Risk',
+    palette: COLORS,
+    colorMode: 'random',
+    background: { type: 'color', color: '#ffffff' },
+    fontFamily: FONT_FAMILIES[0].value,
+  },
+  {
+    id: 'midnight',
+    name: 'Midnight',
+    palette: ['#FDE68A', '#FCA5A5', '#93C5FD', '#A7F3D0', '#F9A8D4', '#FFFFFF'],
+    colorMode: 'random',
+    background: { type: 'color', color: '#0F172A' },
+    fontFamily: FONT_FAMILIES[0].value,
+  },
+  {
+    id: 'ocean',
+    name: 'Ocean',
+    palette: ['#0C4A6E', '#0369A1', '#0EA5E9', '#7DD3FC'],
+    colorMode: 'gradient',
+    background: { type: 'color', color: '#F0F9FF' },
+    fontFamily: FONT_FAMILIES[1].value,
+  },
+  {
+    id: 'sunset',
+    name: 'Sunset',
+    palette: ['#7C2D12', '#C2410C', '#F97316', '#FBBF24'],
+    colorMode: 'rank',
+    background: { type: 'color', color: '#FFF7ED' },
+    fontFamily: FONT_FAMILIES[0].value,
+  },
+  {
+    id: 'overlay',
+    name: 'Overlay',
+    palette: ['#FFFFFF', '#F1F5F9', '#FDE047'],
+    colorMode: 'random',
+    background: { type: 'transparent' },
+    fontFamily: FONT_FAMILIES[1].value,
+  },
+];
+
+export const DEFAULT_THEME = THEME_PRESETS[0];
+
+export const DEFAULT_SIZING_OPTIONS: SizingOptions = {
+  scaling: 'linear',
+  // Huge font sizes for event display
+  minFontSize: 80,
+  maxFontSize: 550,
+  // Slightly reduced limit to prevent overcrowding with huge fonts
+  maxWords: 120,
+  minCount: 1,
+};
+
+export const DEFAULT_TOKENIZE_SETTINGS: TokenizeSettings = {
+  ngramSize: 2,
+  stopWordLanguages: ['th', 'en'],
+  customStopWords: [],
+};
+
+export const DEFAULT_DISPLAY_SETTINGS: DisplaySettings = {
+  tokenizeMode: 'phrase',
+  tokenize: DEFAULT_TOKENIZE_SETTINGS,
+  fuzzyMerge: false,
+  rotation: 'none',
+  shape: 'rectangle',
+  shapeImage: null,
+  stableLayout: true,
+  theme: DEFAULT_THEME,
+  sizing: DEFAULT_SIZING_OPTIONS,
+  qr: {
+    visible: false,
+    size: 220,
+    corner: 'bottom-right',
+  },
+  leaderboard: {
+    layout: 'cloud',
+    position: 'side',
+    topN: 10,
+  },
+  timeWindowMinutes: null,
+};
@@ -0,0 +1,36 @@
+import { useState } from 'react';
+import { DEFAULT_DISPLAY_SETTINGS } from '../constants';
+import { DisplaySettings } from '../types';
+
+const STORAGE_KEY = 'wordcloud.display';
+
+const loadSettings = (): DisplaySettings => {
+  try {
+    const saved = localStorage.getItem(STORAGE_KEY);
+    return saved ? { ...DEFAULT_DISPLAY_SETTINGS, ...JSON.parse(saved) } : DEFAULT_DISPLAY_SETTINGS;
+  } catch {
+    return DEFAULT_DISPLAY_SETTINGS;
+  }
+};
+
+/**
+ * Live display settings, persisted in localStorage so the projector keeps them across reloads.
+ */
+export const useDisplaySettings = () => {
+  const [settings, setSettings] = useState<DisplaySettings>(loadSettings);
+
+  const updateSettings = (changes: Partial<DisplaySettings>) => {
+    setSettings(prev => {
+      const next = { ...prev, ...changes };
+      try {
+        localStorage.setItem(STORAGE_KEY, JSON.stringify(next));
+      } catch (error) {
+        // A large shape image can exceed the storage quota; keep it for this tab only
+        console.error('Error saving display settings:', error);
+      }
+      return next;
+    });
+  };
+
+  return { settings, updateSettings };
+};
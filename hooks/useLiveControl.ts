@@ -0,0 +1,47 @@
+import { useState, useEffect, useRef } from 'react';
+import { entryStore } from '../services/entryStore';
+import { DEFAULT_LIVE_CONTROL } from '../constants';
+import { applyLiveCommand, liveControlKey } from '../utils/liveControl';
+import { LiveCommand, LiveControlState, StoreResult } from '../types';
+
+/**
+ * Presenter control state for a session. The state is saved as a setting so a reloaded
+ * display picks it up, and each command is also pushed over the store's realtime channel.
+ * onCommand sees every command applied, including a 'sync' with the saved state on load.
+ */
+export const useLiveControl = (sessionId: string, onCommand?: (command: LiveCommand) => void) => {
+  const [control, setControl] = useState<LiveControlState>(DEFAULT_LIVE_CONTROL);
+  const controlRef = useRef(control);
+  const onCommandRef = useRef(onCommand);
+  onCommandRef.current = onCommand;
+
+  const apply = (command: LiveCommand) => {
+    controlRef.current = applyLiveCommand(controlRef.current, command);
+    setControl(controlRef.current);
+    onCommandRef.current?.(command);
+  };
+
+  useEffect(() => {
+    let cancelled = false;
+    entryStore.getSetting<LiveControlState>(liveControlKey(sessionId)).then(saved => {
+      if (!cancelled && saved) apply({ type: 'sync', state: { ...DEFAULT_LIVE_CONTROL, ...saved } });
+    });
+
+    const unsubscribe = entryStore.subscribeCommands(sessionId, apply);
+    return () => {
+      cancelled = true;
+      unsubscribe();
+    };
+  }, [sessionId]);
+
+  const sendCommand = async (command: LiveCommand): Promise<StoreResult<null>> => {
+    const next = applyLiveCommand(controlRef.current, command);
+    const saved = await entryStore.setSetting(liveControlKey(sessionId), next);
+    if (saved.error) return saved;
+
+    apply(command);
+    return entryStore.sendCommand(sessionId, command);
+  };
+
+  return { control, sendCommand };
+};
@@ -0,0 +1,63 @@
+import { useState, useEffect } from 'react';
+import { entryStore } from '../services/entryStore';
+import { DEFAULT_MODERATION_SETTINGS } from '../constants';
+import { moderationSettingsKey } from '../utils/moderation';
+import { ModerationSettings, StoreResult } from '../types';
+
+const loadSettings = async (sessionId: string): Promise<ModerationSettings> => {
+  const saved = await entryStore.getSetting<ModerationSettings>(moderationSettingsKey(sessionId));
+  if (!saved) return DEFAULT_MODERATION_SETTINGS;
+  // Rules saved before submission limits existed get the default limits
+  return {
+    ...DEFAULT_MODERATION_SETTINGS,
+    ...saved,
+    limits: { ...DEFAULT_MODERATION_SETTINGS.limits, ...saved.limits },
+  };
+};
+
+/**
+ * Loads a session's moderation rules from the active store, falling back to the defaults.
+ * With refreshMs, the rules are loaded again on that interval so a page left open
+ * follows the organizer's changes. `isLoaded` stays false until the store has answered.
+ */
+export const useModerationSettings = (sessionId: string, refreshMs?: number) => {
+  const [settings, setSettings] = useState<ModerationSettings>(DEFAULT_MODERATION_SETTINGS);
+  const [isLoaded, setIsLoaded] = useState(false);
+
+  // Keeps the same object while the rules are unchanged, so forms built from them aren't reset
+  const applySettings = (next: ModerationSettings) => {
+    setSettings(prev => JSON.stringify(prev) === JSON.stringify(next) ? prev : next);
+    setIsLoaded(true);
+  };
+
+  useEffect(() => {
+    let cancelled = false;
+    const load = () => loadSettings(sessionId).then(next => {
+      if (!cancelled) applySettings(next);
+    });
+
+    load();
+    const timer = refreshMs ? setInterval(load, refreshMs) : null;
+    return () => {
+      cancelled = true;
+      if (timer) clearInterval(timer);
+    };
+  }, [sessionId, refreshMs]);
+
+  /**
+   * Loads the current rules now, e.g. right before they decide on a submission.
+   */
+  const refreshSettings = async (): Promise<ModerationSettings> => {
+    const next = await loadSettings(sessionId);
+    applySettings(next);
+    return next;
+  };
+
+  const saveSettings = async (next: ModerationSettings): Promise<StoreResult<null>> => {
+    const result = await entryStore.setSetting(moderationSettingsKey(sessionId), next);
+    if (!result.error) setSettings(next);
+    return result;
+  };
+
+  return { settings, isLoaded, refreshSettings, saveSettings };
+};
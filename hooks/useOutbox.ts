@@ -0,0 +1,21 @@
+import { useEffect, useState } from 'react';
+import { enqueueEntry, getOutbox, retryEntry, startOutbox, subscribeOutbox } from '../services/outbox';
+
+/**
+ * This device's submissions to a session, oldest first, with their delivery status.
+ */
+export const useOutbox = (sessionId: string) => {
+  const [items, setItems] = useState(getOutbox);
+
+  useEffect(() => {
+    const unsubscribe = subscribeOutbox(setItems);
+    startOutbox();
+    return unsubscribe;
+  }, []);
+
+  return {
+    items: items.filter(item => item.entry.session_id === sessionId),
+    enqueue: enqueueEntry,
+    retry: retryEntry,
+  };
+};
@@ -0,0 +1,32 @@
+import { useState } from 'react';
+
+const STORAGE_KEY = 'wordcloud.name';
+
+const loadName = (): string | null => {
+  try {
+    return localStorage.getItem(STORAGE_KEY);
+  } catch {
+    return null;
+  }
+};
+
+/**
+ * The participant's name from the join screen, remembered in localStorage for later visits.
+ * null until they have joined; an empty string when they chose to stay anonymous.
+ */
+export const useParticipantName = () => {
+  const [name, setName] = useState<string | null>(loadName);
+
+  const saveName = (next: string | null) => {
+    const trimmed = next === null ? null : next.trim();
+    setName(trimmed);
+    try {
+      if (trimmed === null) localStorage.removeItem(STORAGE_KEY);
+      else localStorage.setItem(STORAGE_KEY, trimmed);
+    } catch (error) {
+      console.error('Error saving participant name:', error);
+    }
+  };
+
+  return { name, saveName };
+};
@@ -0,0 +1,27 @@
+import { useState, useEffect } from 'react';
+import { entryStore } from '../services/entryStore';
+import { questionsKey } from '../utils/questions';
+import { Question, StoreResult } from '../types';
+
+/**
+ * Loads a session's question list from the active store.
+ */
+export const useQuestions = (sessionId: string) => {
+  const [questions, setQuestions] = useState<Question[]>([]);
+
+  useEffect(() => {
+    let cancelled = false;
+    entryStore.getSetting<Question[]>(questionsKey(sessionId)).then(saved => {
+      if (!cancelled && Array.isArray(saved)) setQuestions(saved);
+    });
+    return () => { cancelled = true; };
+  }, [sessionId]);
+
+  const saveQuestions = async (next: Question[]): Promise<StoreResult<null>> => {
+    const result = await entryStore.setSetting(questionsKey(sessionId), next);
+    if (!result.error) setQuestions(next);
+    return result;
+  };
+
+  return { questions, saveQuestions };
+};
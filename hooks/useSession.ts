@@ -0,0 +1,22 @@
+import { useState, useEffect } from 'react';
+import { entryStore } from '../services/entryStore';
+import { DEFAULT_SESSION_ID } from '../constants';
+import { EventSession } from '../types';
+
+/**
+ * Looks up the session record for a route. The default session has no record.
+ */
+export const useSession = (sessionId: string) => {
+  const [session, setSession] = useState<EventSession | null>(null);
+
+  useEffect(() => {
+    if (sessionId === DEFAULT_SESSION_ID) return;
+    let cancelled = false;
+    entryStore.listSessions().then(sessions => {
+      if (!cancelled) setSession(sessions.find(s => s.id === sessionId) || null);
+    });
+    return () => { cancelled = true; };
+  }, [sessionId]);
+
+  return session;
+};
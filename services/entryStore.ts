@@ -0,0 +1,27 @@
+import { EntryStore, StoreBackend } from '../types';
+import { googleSheetsStore, isBackendConfigured } from './googleSheetsClient';
+import { supabaseStore, isSupabaseConfigured } from './supabaseClient';
+import { localStore } from './localStore';
+
+// --- Configuration ---
+// Set ENTRY_STORE in .env.local to 'sheets', 'supabase' or 'local'. Defaults to Google Sheets.
+const getConfiguredBackend = (): StoreBackend => {
+  const value = (process.env.ENTRY_STORE || '').trim().toLowerCase();
+  if (value === 'supabase' || value === 'local') return value;
+  return 'sheets';
+};
+
+const selectStore = (backend: StoreBackend): EntryStore => {
+  if (backend === 'sheets' && isBackendConfigured) return googleSheetsStore;
+  if (backend === 'supabase' && isSupabaseConfigured) return supabaseStore;
+
+  if (backend !== 'local') {
+    console.warn(`Entry store "${backend}" is not configured. Falling back to local storage.`);
+  }
+  return localStore;
+};
+
+/**
+ * The active backend, chosen once at startup.
+ */
+export const entryStore: EntryStore = selectStore(getConfiguredBackend());
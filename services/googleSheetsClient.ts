@@ -1,4 +1,9 @@
-import { WordCloudEntry } from '../types';
+import {
+  ConnectionHealth, EntryEvent, EntryStatus, EntryStore, EventSession, LiveCommand, LiveControlState, NewEntry, StoreResult, WordCloudEntry
+} from '../types';
+import { buildSession, matchesSession } from '../utils/sessions';
+import { createEntryId } from '../utils/entries';
+import { liveControlKey } from '../utils/liveControl';
 
 // --- Configuration ---
 // The deployed Google Apps Script Web App URL provided by the user
@@ -6,10 +11,7 @@ const GOOGLE_SCRIPT_URL = 'https://script.google.com/macros/s/AKfycbyIj6IcB-P2_B
 
 export const isBackendConfigured = !!GOOGLE_SCRIPT_URL;
 
-// --- Local In-Memory Store for Demo Mode ---
-const localEntries: WordCloudEntry[] = [];
-
-// Helper for safe demo communication
+// Helper for optimistic same-tab updates
 class InMemoryEmitter {
   private static listeners: Function[] = [];
   static emit(event: any) { this.listeners.forEach(cb => cb(event)); }
@@ -19,126 +21,320 @@ class InMemoryEmitter {
   }
 }
 
+// TRICK: We use 'Content-Type': 'text/plain' to prevent the browser from triggering 
+// a CORS Preflight (OPTIONS) request. Google Apps Script cannot handle OPTIONS requests easily.
+// The body is still valid JSON, and the server (GAS) will parse it using JSON.parse(e.postData.contents).
+const postToScript = async (body: Record<string, unknown>) => {
+  const response = await fetch(GOOGLE_SCRIPT_URL, {
+    method: 'POST',
+    headers: {
+      'Content-Type': 'text/plain;charset=utf-8',
+    },
+    body: JSON.stringify(body)
+  });
+
+  const result = await response.json();
+  if (result.status === 'error') throw new Error(result.message);
+  // Scripts older than apps-script/Code.gs append any POST as an entry and still report success
+  if (body.action && result.action !== body.action) {
+    throw new Error(`The Apps Script does not support "${body.action}"; redeploy apps-script/Code.gs`);
+  }
+  return result;
+};
+
 // --- API Services ---
 
-export const saveEntry = async (userName: string, inputText: string, imageUrl: string | null = null) => {
+export const saveEntry = async ({ session_id, user_name, input_text, image_url = null, status = 'approved', question_id = null, device_id = null, client_id = null }: NewEntry): Promise<StoreResult<{ id?: number }>> => {
   const entry: WordCloudEntry = {
-    id: Date.now(),
-    user_name: userName,
-    input_text: inputText,
-    image_url: imageUrl,
+    id: createEntryId(),
+    session_id,
+    user_name,
+    input_text,
+    image_url,
+    status,
+    question_id,
+    device_id,
+    client_id,
     created_at: new Date().toISOString()
   };
 
-  // 1. Always save to local demo store immediately for optimistic UI updates
-  localEntries.push(entry);
-  InMemoryEmitter.emit({ type: 'INSERT', payload: entry });
+  // The script skips rows whose client_id it already has, so a retried entry is stored once
+  try {
+    const result = await postToScript({ session_id, user_name, input_text, status, question_id, device_id, client_id });
+    // Announce in this tab once the sheet has it, so the display never counts an answer that was lost
+    InMemoryEmitter.emit({ type: 'INSERT', payload: entry });
+    return { data: result, error: null };
+  } catch (error) {
+    console.error('Error saving to Google Sheets:', error);
+    return { data: null, error: error as Error };
+  }
+};
+
+export const fetchAllTexts = async (sessionId: string): Promise<WordCloudEntry[]> => {
+  try {
+    const response = await fetch(`${GOOGLE_SCRIPT_URL}?session_id=${encodeURIComponent(sessionId)}`);
+    const data = await response.json();
 
-  if (!isBackendConfigured) {
-    console.warn("Google Sheets URL not configured. Using local demo mode.");
-    return { data: { id: entry.id }, error: null };
+    // Current scripts answer { entries, cursor } (see Live sync below); older ones a plain array.
+    // Filter again here in case the deployed script ignores the session parameter.
+    const entries: WordCloudEntry[] = Array.isArray(data) ? data : data?.entries ?? [];
+    return entries.filter(e => matchesSession(e, sessionId));
+  } catch (error) {
+    console.error('Error fetching from Google Sheets:', error);
+    return [];
   }
+};
 
-  // 2. Send to Google Sheets
+export const deleteEntry = async (id: number): Promise<StoreResult<null>> => {
   try {
-    // TRICK: We use 'Content-Type': 'text/plain' to prevent the browser from triggering 
-    // a CORS Preflight (OPTIONS) request. Google Apps Script cannot handle OPTIONS requests easily.
-    // The body is still valid JSON, and the server (GAS) will parse it using JSON.parse(e.postData.contents).
-    const response = await fetch(GOOGLE_SCRIPT_URL, {
-      method: 'POST',
-      headers: {
-        'Content-Type': 'text/plain;charset=utf-8',
-      },
-      body: JSON.stringify({ user_name: userName, input_text: inputText })
-    });
-
-    const result = await response.json();
-    if (result.status === 'error') throw new Error(result.message);
-    
-    return { data: result, error: null };
+    await postToScript({ action: 'delete', id });
+    // Polls can't see a removed row, so only pages in this tab learn of the delete
+    InMemoryEmitter.emit({ type: 'DELETE', payload: { id } });
+    return { data: null, error: null };
   } catch (error) {
-    console.error('Error saving to Google Sheets:', error);
-    // We don't return error here if local save succeeded to keep UI optimistic,
-    // but in a real app we might want to notify the user.
-    return { data: { id: entry.id }, error: null }; 
+    console.error('Error deleting from Google Sheets:', error);
+    return { data: null, error: error as Error };
   }
 };
 
-export const fetchAllTexts = async (): Promise<WordCloudEntry[]> => {
-  if (!isBackendConfigured) {
-    return [...localEntries].sort((a, b) => 
-      (b.created_at || '').localeCompare(a.created_at || '')
-    );
+export const setEntryStatus = async (id: number, status: EntryStatus): Promise<StoreResult<null>> => {
+  try {
+    await postToScript({ action: 'setStatus', id, status });
+    return { data: null, error: null };
+  } catch (error) {
+    console.error('Error updating status in Google Sheets:', error);
+    return { data: null, error: error as Error };
   }
+};
+
+// --- Settings ---
 
+export const getSetting = async <T>(key: string): Promise<T | null> => {
   try {
-    const response = await fetch(GOOGLE_SCRIPT_URL);
+    const response = await fetch(`${GOOGLE_SCRIPT_URL}?action=setting&key=${encodeURIComponent(key)}`);
     const data = await response.json();
-    
-    // Google Sheets returns raw data. Ensure it matches our type.
-    // Also, we can merge with localEntries if we wanted to show pending writes, 
-    // but for simplicity we'll trust the server response plus any very recent local ones?
-    // For this version, let's return the server data directly. 
-    // If the server is empty but we have local writes, we might want to merge, 
-    // but the saveEntry optimistic update handles the immediate UI.
-    return data as WordCloudEntry[];
+    return (data?.value ?? null) as T | null;
   } catch (error) {
-    console.error('Error fetching from Google Sheets:', error);
-    // Fallback to local if network fails
-    return [...localEntries];
+    console.error('Error fetching setting from Google Sheets:', error);
+    return null;
+  }
+};
+
+export const setSetting = async <T>(key: string, value: T): Promise<StoreResult<null>> => {
+  try {
+    await postToScript({ action: 'setSetting', key, value });
+    return { data: null, error: null };
+  } catch (error) {
+    console.error('Error saving setting to Google Sheets:', error);
+    return { data: null, error: error as Error };
+  }
+};
+
+// --- Sessions ---
+
+export const fetchSessions = async (): Promise<EventSession[]> => {
+  try {
+    const response = await fetch(`${GOOGLE_SCRIPT_URL}?action=sessions`);
+    const data = await response.json();
+    return Array.isArray(data) ? data as EventSession[] : [];
+  } catch (error) {
+    console.error('Error fetching sessions from Google Sheets:', error);
+    return [];
+  }
+};
+
+export const createSession = async (name: string): Promise<StoreResult<EventSession>> => {
+  const session = buildSession(name);
+  try {
+    await postToScript({ action: 'createSession', ...session });
+    return { data: session, error: null };
+  } catch (error) {
+    console.error('Error creating session in Google Sheets:', error);
+    return { data: null, error: error as Error };
+  }
+};
+
+export const setSessionArchived = async (id: string, archived: boolean): Promise<StoreResult<null>> => {
+  try {
+    await postToScript({ action: 'archiveSession', id, archived });
+    return { data: null, error: null };
+  } catch (error) {
+    console.error('Error archiving session in Google Sheets:', error);
+    return { data: null, error: error as Error };
   }
 };
 
 // --- Realtime Simulation (Polling) ---
+// Google Sheets API (via GAS) doesn't support WebSockets, so we poll, asking only for rows
+// added or changed since a cursor the script hands back with every response:
+//   GET ?session_id=<id>&since=<cursor>  ->  { entries: [...], cursor: '<opaque>' }
+// Without `since` the script returns every row of the session and a fresh cursor.
+// An older script that ignores `since` returns a plain array of every row; those polls
+// are diffed against the last seen status of each row instead.
+
+interface EntryChanges {
+  entries: WordCloudEntry[];
+  cursor: string | null;
+}
 
-export const subscribeToNewEntries = (onNewEntry: (entry: WordCloudEntry) => void): (() => void) => {
-  // 1. Local immediate updates (listen to optimistic writes from this tab)
+// Poll quickly while answers are coming in, and slow down while the room is quiet
+const POLL_ACTIVE_MS = 2000;
+const POLL_IDLE_MS = 5000;
+const POLL_QUIET_MS = 15_000;
+// Failed polls back off up to this, and the connection counts as offline after a few
+const POLL_MAX_BACKOFF_MS = 60_000;
+const OFFLINE_AFTER_FAILURES = 3;
+
+const fetchChanges = async (sessionId: string, since: string | null): Promise<EntryChanges | WordCloudEntry[]> => {
+  const params = new URLSearchParams({ session_id: sessionId });
+  if (since) params.set('since', since);
+  const response = await fetch(`${GOOGLE_SCRIPT_URL}?${params}`);
+  if (!response.ok) throw new Error(`Google Sheets responded with ${response.status}`);
+  return response.json();
+};
+
+export const subscribeToNewEntries = (
+  sessionId: string,
+  onChange: (entry: WordCloudEntry, event: EntryEvent) => void,
+  onHealth?: (health: ConnectionHealth) => void
+): (() => void) => {
+  // Last seen status per ID: tells updates from inserts, and diffs scripts that return every row
+  const lastKnown = new Map<number | string, EntryStatus | undefined>();
+
+  // 1. Local immediate updates (listen to writes from this tab). The poll announces the
+  // same entries again with their sheet id; pages match the two by client_id.
   const unsubscribeLocal = InMemoryEmitter.subscribe((event: any) => {
-    if (event.type === 'INSERT') onNewEntry(event.payload);
+    if (event.type === 'INSERT' && matchesSession(event.payload, sessionId)) onChange(event.payload, 'insert');
+    if (event.type === 'DELETE') {
+      lastKnown.delete(event.payload.id);
+      onChange(event.payload, 'delete');
+    }
   });
 
-  if (!isBackendConfigured) {
-    return unsubscribeLocal;
-  }
-
   // 2. Polling for Google Sheets
-  // Google Sheets API (via GAS) doesn't support WebSockets, so we poll.
   let isPolling = true;
-  let lastKnownIds = new Set<number | string>();
+  let pollTimer: ReturnType<typeof setTimeout> | null = null;
+  let cursor: string | null = null;
+  let isFirstPoll = true;
+  let delay = POLL_IDLE_MS;
+  let failures = 0;
+  let lastSyncAt: number | null = null;
 
-  // Initial fetch to populate known IDs so we don't re-announce old entries
-  fetchAllTexts().then(entries => {
-    entries.forEach(e => {
-      if (e.id) lastKnownIds.add(e.id);
-    });
-  });
+  const reportHealth = () => {
+    const state = failures === 0 ? 'connected'
+      : failures < OFFLINE_AFTER_FAILURES && navigator.onLine ? 'degraded'
+      : 'offline';
+    onHealth?.({ state, lastSyncAt });
+  };
 
-  const pollInterval = setInterval(async () => {
-    if (!isPolling) return;
+  const changedEntries = (response: EntryChanges | WordCloudEntry[]): WordCloudEntry[] => {
+    if (Array.isArray(response)) {
+      return response.filter(e => e.id && matchesSession(e, sessionId) &&
+        (!lastKnown.has(e.id) || lastKnown.get(e.id) !== e.status));
+    }
+    cursor = response.cursor ?? cursor;
+    return (response.entries || []).filter(e => matchesSession(e, sessionId));
+  };
+
+  const poll = async () => {
+    pollTimer = null;
     try {
-      const entries = await fetchAllTexts();
-      // Check for new entries (assumes ID exists)
-      const newEntries = entries.filter(e => e.id && !lastKnownIds.has(e.id));
-      
-      if (newEntries.length > 0) {
-          // Sort oldest to newest so we replay them in order
-          newEntries.sort((a, b) => (a.created_at || '').localeCompare(b.created_at || ''));
-          
-          newEntries.forEach(entry => {
-            if (entry.id) lastKnownIds.add(entry.id);
-            // Only emit if it wasn't already emitted locally (simple check by ID/timestamp could be added)
-            // But for now, duplication is low risk for word cloud stats.
-            onNewEntry(entry);
-          });
+      const changes = changedEntries(await fetchChanges(sessionId, cursor));
+      // Every row has been seen since the first poll, so a known id is an update
+      const events = changes.map(entry => ({
+        entry,
+        event: (entry.id && lastKnown.has(entry.id) ? 'update' : 'insert') as EntryEvent,
+      }));
+      changes.forEach(e => {
+        if (e.id) lastKnown.set(e.id, e.status);
+      });
+
+      // The first response repeats what the page listed, plus anything sent since; pages
+      // replace entries they already have by id, so nothing is lost between the two requests
+      if (events.length > 0) {
+        // Sort oldest to newest so we replay them in order
+        events.sort((a, b) => (a.entry.created_at || '').localeCompare(b.entry.created_at || ''));
+        events.forEach(({ entry, event }) => onChange(entry, event));
       }
-    } catch (e) {
-      // Silent fail on poll error
+      delay = events.length > 0 && !isFirstPoll
+        ? POLL_ACTIVE_MS
+        : Math.min(Math.max(delay, POLL_IDLE_MS) * 1.5, POLL_QUIET_MS);
+      isFirstPoll = false;
+      failures = 0;
+      lastSyncAt = Date.now();
+    } catch (error) {
+      // Log the first failure of a streak only, not every retry
+      if (failures === 0) console.error('Error polling Google Sheets:', error);
+      failures++;
+      delay = Math.min(Math.max(delay, POLL_IDLE_MS) * 2, POLL_MAX_BACKOFF_MS);
     }
-  }, 5000); // Poll every 5 seconds
+
+    if (!isPolling) return;
+    reportHealth();
+    pollTimer = setTimeout(poll, delay);
+  };
+
+  // Back online: poll now instead of waiting out the backoff. A poll in flight has no timer.
+  const handleOnline = () => {
+    if (!pollTimer) return;
+    clearTimeout(pollTimer);
+    poll();
+  };
+  const handleOffline = () => onHealth?.({ state: 'offline', lastSyncAt });
+  window.addEventListener('online', handleOnline);
+  window.addEventListener('offline', handleOffline);
+
+  poll();
 
   return () => {
     isPolling = false;
+    if (pollTimer) clearTimeout(pollTimer);
+    window.removeEventListener('online', handleOnline);
+    window.removeEventListener('offline', handleOffline);
+    unsubscribeLocal();
+  };
+};
+
+// --- Presenter commands ---
+// Apps Script can't push, so displays poll the saved control state (see hooks/useLiveControl)
+// and sending only needs to reach other listeners in this tab
+
+export const sendCommand = async (sessionId: string, command: LiveCommand): Promise<StoreResult<null>> => {
+  InMemoryEmitter.emit({ type: 'COMMAND', sessionId, command });
+  return { data: null, error: null };
+};
+
+export const subscribeCommands = (sessionId: string, onCommand: (command: LiveCommand) => void): (() => void) => {
+  const unsubscribeLocal = InMemoryEmitter.subscribe((event: any) => {
+    if (event.type === 'COMMAND' && event.sessionId === sessionId) onCommand(event.command);
+  });
+
+  let lastState: string | null = null;
+  const pollInterval = setInterval(async () => {
+    const state = await getSetting<LiveControlState>(liveControlKey(sessionId));
+    const serialized = JSON.stringify(state);
+    if (state && serialized !== lastState) onCommand({ type: 'sync', state });
+    lastState = serialized;
+  }, 5000); // Same pace as entry polling
+
+  return () => {
     clearInterval(pollInterval);
     unsubscribeLocal();
   };
-};
\ No newline at end of file
+};
+
+export const googleSheetsStore: EntryStore = {
+  save: saveEntry,
+  list: fetchAllTexts,
+  subscribe: subscribeToNewEntries,
+  delete: deleteEntry,
+  setStatus: setEntryStatus,
+  status: () => ({ backend: 'sheets', configured: isBackendConfigured, remote: true }),
+  listSessions: fetchSessions,
+  createSession,
+  setSessionArchived,
+  getSetting,
+  setSetting,
+  sendCommand,
+  subscribeCommands,
+};
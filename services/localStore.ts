@@ -0,0 +1,305 @@
+import { EntryEvent, EntryStatus, EntryStore, EventSession, LiveCommand, NewEntry, StoreResult, WordCloudEntry } from '../types';
+import { buildSession, matchesSession } from '../utils/sessions';
+import { createEntryId } from '../utils/entries';
+
+// --- Configuration ---
+const DB_NAME = 'cg-risk-word-cloud';
+const DB_VERSION = 4;
+const ENTRIES_STORE = 'entries';
+const SESSIONS_STORE = 'sessions';
+const SETTINGS_STORE = 'settings';
+const CLIENT_ID_INDEX = 'client_id';
+const CHANNEL_NAME = 'word-cloud-local';
+
+// --- IndexedDB Helpers ---
+// Entries survive page refreshes so an event can run fully offline on one laptop.
+
+let dbPromise: Promise<IDBDatabase> | null = null;
+
+const openDatabase = (): Promise<IDBDatabase> => {
+  if (!dbPromise) {
+    dbPromise = new Promise((resolve, reject) => {
+      if (typeof indexedDB === 'undefined') {
+        reject(new Error('IndexedDB is not available in this browser'));
+        return;
+      }
+
+      const request = indexedDB.open(DB_NAME, DB_VERSION);
+      request.onupgradeneeded = () => {
+        const db = request.result;
+        if (!db.objectStoreNames.contains(ENTRIES_STORE)) {
+          db.createObjectStore(ENTRIES_STORE, { keyPath: 'id' });
+        }
+        // Finds an outbox retry of an entry that is already stored (see addEntryOnce).
+        // Not unique: duplicates saved before the index existed would fail the upgrade.
+        const entries = request.transaction!.objectStore(ENTRIES_STORE);
+        if (!entries.indexNames.contains(CLIENT_ID_INDEX)) {
+          entries.createIndex(CLIENT_ID_INDEX, 'client_id');
+        }
+        if (!db.objectStoreNames.contains(SESSIONS_STORE)) {
+          db.createObjectStore(SESSIONS_STORE, { keyPath: 'id' });
+        }
+        if (!db.objectStoreNames.contains(SETTINGS_STORE)) {
+          db.createObjectStore(SETTINGS_STORE, { keyPath: 'key' });
+        }
+      };
+      request.onsuccess = () => resolve(request.result);
+      request.onerror = () => reject(request.error);
+    });
+  }
+  return dbPromise;
+};
+
+const runTransaction = async <T>(
+  storeName: string,
+  mode: IDBTransactionMode,
+  action: (store: IDBObjectStore) => IDBRequest<T>
+): Promise<T> => {
+  const db = await openDatabase();
+  return new Promise((resolve, reject) => {
+    const tx = db.transaction(storeName, mode);
+    const request = action(tx.objectStore(storeName));
+    tx.oncomplete = () => resolve(request.result);
+    tx.onerror = () => reject(tx.error);
+    tx.onabort = () => reject(tx.error);
+  });
+};
+
+/**
+ * Adds an entry unless one with the same client_id is already stored, in which case that
+ * one is returned. Lookup and add share a transaction, so two tabs can't both add it.
+ */
+const addEntryOnce = async (entry: WordCloudEntry): Promise<WordCloudEntry> => {
+  const db = await openDatabase();
+  return new Promise((resolve, reject) => {
+    const tx = db.transaction(ENTRIES_STORE, 'readwrite');
+    const store = tx.objectStore(ENTRIES_STORE);
+    let stored = entry;
+
+    if (entry.client_id) {
+      const lookup = store.index(CLIENT_ID_INDEX).get(entry.client_id);
+      lookup.onsuccess = () => {
+        if (lookup.result) stored = lookup.result;
+        else store.add(entry);
+      };
+    } else {
+      store.add(entry);
+    }
+
+    tx.oncomplete = () => resolve(stored);
+    tx.onerror = () => reject(tx.error);
+    tx.onabort = () => reject(tx.error);
+  });
+};
+
+// --- Realtime (same tab + other tabs) ---
+
+class InMemoryEmitter {
+  private static listeners: Function[] = [];
+  static emit(event: any) { this.listeners.forEach(cb => cb(event)); }
+  static subscribe(cb: Function) {
+    this.listeners.push(cb);
+    return () => { this.listeners = this.listeners.filter(l => l !== cb); };
+  }
+}
+
+type LocalEvent =
+  | { type: 'INSERT' | 'UPDATE' | 'DELETE'; payload: WordCloudEntry }
+  | { type: 'COMMAND'; sessionId: string; command: LiveCommand };
+
+const broadcast = (event: LocalEvent) => {
+  InMemoryEmitter.emit(event);
+
+  // BroadcastChannel only reaches other tabs, and can fail in sandboxed iframes
+  try {
+    const bc = new BroadcastChannel(CHANNEL_NAME);
+    bc.postMessage(event);
+    bc.close();
+  } catch (e) {
+    // Ignore BroadcastChannel errors in sandbox
+  }
+};
+
+const ENTRY_EVENTS: Record<'INSERT' | 'UPDATE' | 'DELETE', EntryEvent> = {
+  INSERT: 'insert',
+  UPDATE: 'update',
+  DELETE: 'delete',
+};
+
+// --- API Services ---
+
+export const saveEntry = async ({ session_id, user_name, input_text, image_url = null, status = 'approved', question_id = null, device_id = null, client_id = null }: NewEntry): Promise<StoreResult<{ id?: number }>> => {
+  const entry: WordCloudEntry = {
+    id: createEntryId(),
+    session_id,
+    user_name,
+    input_text,
+    image_url,
+    status,
+    question_id,
+    device_id,
+    client_id,
+    created_at: new Date().toISOString()
+  };
+
+  try {
+    const stored = await addEntryOnce(entry);
+    if (stored === entry) broadcast({ type: 'INSERT', payload: entry });
+    return { data: { id: stored.id }, error: null };
+  } catch (error) {
+    console.error('Error saving to local store:', error);
+    return { data: null, error: error as Error };
+  }
+};
+
+export const fetchAllTexts = async (sessionId: string): Promise<WordCloudEntry[]> => {
+  try {
+    const entries = await runTransaction<WordCloudEntry[]>(ENTRIES_STORE, 'readonly', store => store.getAll());
+    // Newest first, matching the remote backends
+    return entries
+      .filter(e => matchesSession(e, sessionId))
+      .sort((a, b) => (b.created_at || '').localeCompare(a.created_at || ''));
+  } catch (error) {
+    console.error('Error reading local store:', error);
+    return [];
+  }
+};
+
+export const deleteEntry = async (id: number): Promise<StoreResult<null>> => {
+  try {
+    const entry = await runTransaction<WordCloudEntry | undefined>(ENTRIES_STORE, 'readonly', store => store.get(id));
+    await runTransaction(ENTRIES_STORE, 'readwrite', store => store.delete(id));
+    if (entry) broadcast({ type: 'DELETE', payload: entry });
+    return { data: null, error: null };
+  } catch (error) {
+    console.error('Error deleting from local store:', error);
+    return { data: null, error: error as Error };
+  }
+};
+
+export const setEntryStatus = async (id: number, status: EntryStatus): Promise<StoreResult<null>> => {
+  try {
+    const entry = await runTransaction<WordCloudEntry | undefined>(ENTRIES_STORE, 'readonly', store => store.get(id));
+    if (!entry) throw new Error(`Entry ${id} not found`);
+    const updated = { ...entry, status };
+    await runTransaction(ENTRIES_STORE, 'readwrite', store => store.put(updated));
+    broadcast({ type: 'UPDATE', payload: updated });
+    return { data: null, error: null };
+  } catch (error) {
+    console.error('Error updating status in local store:', error);
+    return { data: null, error: error as Error };
+  }
+};
+
+/**
+ * Listens on the same tab and on other tabs.
+ */
+const listen = (handleEvent: (event: LocalEvent) => void): (() => void) => {
+  const unsubscribeLocal = InMemoryEmitter.subscribe(handleEvent);
+
+  let bc: BroadcastChannel | null = null;
+  try {
+    bc = new BroadcastChannel(CHANNEL_NAME);
+    bc.onmessage = (event) => handleEvent(event.data);
+  } catch (e) {
+    console.warn("Realtime sync across tabs disabled (Sandbox restricted)");
+  }
+
+  return () => {
+    unsubscribeLocal();
+    if (bc) bc.close();
+  };
+};
+
+export const subscribeToNewEntries = (sessionId: string, onChange: (entry: WordCloudEntry, event: EntryEvent) => void): (() => void) => {
+  return listen((event) => {
+    if (!event || event.type === 'COMMAND' || !matchesSession(event.payload, sessionId)) return;
+    onChange(event.payload, ENTRY_EVENTS[event.type]);
+  });
+};
+
+// --- Presenter commands ---
+
+export const sendCommand = async (sessionId: string, command: LiveCommand): Promise<StoreResult<null>> => {
+  broadcast({ type: 'COMMAND', sessionId, command });
+  return { data: null, error: null };
+};
+
+export const subscribeCommands = (sessionId: string, onCommand: (command: LiveCommand) => void): (() => void) => {
+  return listen((event) => {
+    if (event?.type === 'COMMAND' && event.sessionId === sessionId) onCommand(event.command);
+  });
+};
+
+// --- Sessions ---
+
+export const fetchSessions = async (): Promise<EventSession[]> => {
+  try {
+    const sessions = await runTransaction<EventSession[]>(SESSIONS_STORE, 'readonly', store => store.getAll());
+    return sessions.sort((a, b) => b.created_at.localeCompare(a.created_at));
+  } catch (error) {
+    console.error('Error reading sessions from local store:', error);
+    return [];
+  }
+};
+
+export const createSession = async (name: string): Promise<StoreResult<EventSession>> => {
+  const session = buildSession(name);
+  try {
+    await runTransaction(SESSIONS_STORE, 'readwrite', store => store.put(session));
+    return { data: session, error: null };
+  } catch (error) {
+    console.error('Error creating session in local store:', error);
+    return { data: null, error: error as Error };
+  }
+};
+
+export const setSessionArchived = async (id: string, archived: boolean): Promise<StoreResult<null>> => {
+  try {
+    const session = await runTransaction<EventSession | undefined>(SESSIONS_STORE, 'readonly', store => store.get(id));
+    if (!session) throw new Error(`Session ${id} not found`);
+    await runTransaction(SESSIONS_STORE, 'readwrite', store => store.put({ ...session, archived }));
+    return { data: null, error: null };
+  } catch (error) {
+    console.error('Error archiving session in local store:', error);
+    return { data: null, error: error as Error };
+  }
+};
+
+// --- Settings ---
+
+export const getSetting = async <T>(key: string): Promise<T | null> => {
+  try {
+    const record = await runTransaction<{ key: string; value: T } | undefined>(SETTINGS_STORE, 'readonly', store => store.get(key));
+    return record ? record.value : null;
+  } catch (error) {
+    console.error('Error reading setting from local store:', error);
+    return null;
+  }
+};
+
+export const setSetting = async <T>(key: string, value: T): Promise<StoreResult<null>> => {
+  try {
+    await runTransaction(SETTINGS_STORE, 'readwrite', store => store.put({ key, value }));
+    return { data: null, error: null };
+  } catch (error) {
+    console.error('Error saving setting to local store:', error);
+    return { data: null, error: error as Error };
+  }
+};
+
+export const localStore: EntryStore = {
+  save: saveEntry,
+  list: fetchAllTexts,
+  subscribe: subscribeToNewEntries,
+  delete: deleteEntry,
+  setStatus: setEntryStatus,
+  status: () => ({ backend: 'local', configured: true, remote: false }),
+  listSessions: fetchSessions,
+  createSession,
+  setSessionArchived,
+  getSetting,
+  setSetting,
+  sendCommand,
+  subscribeCommands,
+};
@@ -0,0 +1,169 @@
+import { NewEntry, OutboxItem } from '../types';
+import { createClientId } from '../utils/entries';
+import { entryStore } from './entryStore';
+
+const STORAGE_KEY = 'wordcloud.outbox';
+
+// Retry delays double from the first up to the cap; after the last attempt the item is failed
+const FIRST_RETRY_MS = 2000;
+const MAX_RETRY_MS = 60_000;
+const MAX_ATTEMPTS = 8;
+// Delivered items are kept only so the page can show them as sent
+const KEEP_DELIVERED = 20;
+
+const loadOutbox = (): OutboxItem[] => {
+  try {
+    const saved = localStorage.getItem(STORAGE_KEY);
+    const items: OutboxItem[] = saved ? JSON.parse(saved) : [];
+    // A send cut off by a reload may or may not have arrived; its client_id makes resending safe
+    return items.map(item => item.status === 'sending' ? { ...item, status: 'queued' } : item);
+  } catch {
+    return [];
+  }
+};
+
+let items: OutboxItem[] = loadOutbox();
+const listeners = new Set<(items: OutboxItem[]) => void>();
+let isFlushing = false;
+let retryTimer: ReturnType<typeof setTimeout> | null = null;
+let isStarted = false;
+
+const pruneDelivered = (list: OutboxItem[]): OutboxItem[] => {
+  const delivered = list.filter(item => item.status === 'delivered');
+  if (delivered.length <= KEEP_DELIVERED) return list;
+  const dropped = new Set(delivered.slice(0, delivered.length - KEEP_DELIVERED).map(item => item.id));
+  return list.filter(item => !dropped.has(item.id));
+};
+
+const setItems = (next: OutboxItem[]) => {
+  items = pruneDelivered(next);
+  try {
+    localStorage.setItem(STORAGE_KEY, JSON.stringify(items));
+  } catch (error) {
+    console.error('Error saving outbox:', error);
+  }
+  listeners.forEach(listener => listener(items));
+};
+
+const updateItem = (id: string, changes: Partial<OutboxItem>) => {
+  setItems(items.map(item => item.id === id ? { ...item, ...changes } : item));
+};
+
+/**
+ * Wait before the next attempt, with some jitter so every phone in the room
+ * doesn't retry at the same moment when the Wi-Fi comes back.
+ */
+const retryDelay = (attempts: number): number => {
+  const delay = Math.min(FIRST_RETRY_MS * 2 ** (attempts - 1), MAX_RETRY_MS);
+  return delay * (0.8 + Math.random() * 0.4);
+};
+
+const sendItem = async (item: OutboxItem) => {
+  updateItem(item.id, { status: 'sending' });
+  const attempts = item.attempts + 1;
+
+  let error: Error | null;
+  try {
+    ({ error } = await entryStore.save(item.entry));
+  } catch (err) {
+    error = err as Error;
+  }
+
+  if (!error) {
+    updateItem(item.id, { status: 'delivered', attempts, error: undefined });
+    return;
+  }
+  updateItem(item.id, {
+    status: attempts >= MAX_ATTEMPTS ? 'failed' : 'queued',
+    attempts,
+    nextAttemptAt: Date.now() + retryDelay(attempts),
+    error: error.message,
+  });
+};
+
+const scheduleRetry = () => {
+  if (retryTimer) clearTimeout(retryTimer);
+  retryTimer = null;
+
+  const waiting = items.filter(item => item.status === 'queued');
+  if (waiting.length === 0) return;
+  const next = Math.min(...waiting.map(item => item.nextAttemptAt));
+  retryTimer = setTimeout(flushOutbox, Math.max(0, next - Date.now()));
+};
+
+/**
+ * Sends every queued item that is due, one at a time, then waits for the next retry.
+ */
+export const flushOutbox = async () => {
+  if (isFlushing) return;
+  isFlushing = true;
+  try {
+    let due: OutboxItem | undefined;
+    while ((due = items.find(item => item.status === 'queued' && item.nextAttemptAt <= Date.now()))) {
+      await sendItem(due);
+    }
+  } finally {
+    isFlushing = false;
+  }
+  scheduleRetry();
+};
+
+/**
+ * Starts sending what is waiting, including items left over from an earlier visit.
+ * Safe to call more than once.
+ */
+export const startOutbox = () => {
+  if (!isStarted) {
+    isStarted = true;
+    // Connectivity is back: send now rather than at the next scheduled retry
+    window.addEventListener('online', () => {
+      setItems(items.map(item => item.status === 'queued' ? { ...item, nextAttemptAt: Date.now() } : item));
+      flushOutbox();
+    });
+    // Another tab changed the outbox; both may send an item, which its client_id makes harmless
+    window.addEventListener('storage', (event) => {
+      if (event.key !== STORAGE_KEY) return;
+      try {
+        items = event.newValue ? JSON.parse(event.newValue) : [];
+        listeners.forEach(listener => listener(items));
+      } catch (error) {
+        console.error('Error reading outbox from another tab:', error);
+      }
+    });
+  }
+  flushOutbox();
+};
+
+export const getOutbox = (): OutboxItem[] => items;
+
+export const subscribeOutbox = (listener: (items: OutboxItem[]) => void): (() => void) => {
+  listeners.add(listener);
+  return () => { listeners.delete(listener); };
+};
+
+/**
+ * Saves a submission on this device and sends it as soon as possible.
+ */
+export const enqueueEntry = (entry: Omit<NewEntry, 'client_id'>): OutboxItem => {
+  const id = createClientId();
+  const now = Date.now();
+  const item: OutboxItem = {
+    id,
+    entry: { ...entry, client_id: id },
+    status: 'queued',
+    attempts: 0,
+    queuedAt: now,
+    nextAttemptAt: now,
+  };
+  setItems([...items, item]);
+  flushOutbox();
+  return item;
+};
+
+/**
+ * Puts a failed item back in the queue with a fresh set of attempts.
+ */
+export const retryEntry = (id: string) => {
+  updateItem(id, { status: 'queued', attempts: 0, nextAttemptAt: Date.now() });
+  flushOutbox();
+};
@@ -1,18 +1,11 @@
 import { createClient, RealtimeChannel } from '@supabase/supabase-js';
-import { WordCloudEntry } from '../types';
+import { DEFAULT_SESSION_ID } from '../constants';
+import { ConnectionHealth, EntryEvent, EntryStatus, EntryStore, EventSession, LiveCommand, NewEntry, StoreResult, WordCloudEntry } from '../types';
+import { buildSession, matchesSession } from '../utils/sessions';
 
-// Safely retrieve env vars without crashing if process is undefined
-const getEnv = (key: string) => {
-  try {
-    // @ts-ignore
-    return (typeof process !== 'undefined' && process.env && process.env[key]) || '';
-  } catch {
-    return '';
-  }
-};
-
-const supabaseUrl = getEnv('REACT_APP_SUPABASE_URL');
-const supabaseAnonKey = getEnv('REACT_APP_SUPABASE_ANON_KEY');
+// Replaced at build time from .env.local (see `define` in vite.config.ts)
+const supabaseUrl = process.env.REACT_APP_SUPABASE_URL || '';
+const supabaseAnonKey = process.env.REACT_APP_SUPABASE_ANON_KEY || '';
 
 export const isSupabaseConfigured = !!(supabaseUrl && supabaseAnonKey);
 
@@ -21,41 +14,6 @@ export const supabase = createClient(
   supabaseAnonKey || 'placeholder'
 );
 
-// --- Local In-Memory Store for Demo Mode ---
-// This ensures data persists when switching views in the same session if no DB is connected
-const localEntries: WordCloudEntry[] = [];
-
-// --- Helper for Safe Demo Communication ---
-// BroadcastChannel can fail in sandboxed iframes (like AI Studio preview), causing "Refused to connect"
-class InMemoryEmitter {
-  private static listeners: Function[] = [];
-  
-  static emit(event: any) {
-    this.listeners.forEach(cb => cb(event));
-  }
-  
-  static subscribe(cb: Function) {
-    this.listeners.push(cb);
-    return () => {
-      this.listeners = this.listeners.filter(l => l !== cb);
-    };
-  }
-}
-
-const safeBroadcast = (entry: WordCloudEntry) => {
-  // 1. Always update in-memory emitter for same-tab updates
-  InMemoryEmitter.emit({ type: 'INSERT', payload: entry });
-
-  // 2. Try BroadcastChannel for cross-tab (might fail in sandbox)
-  try {
-    const bc = new BroadcastChannel('word-cloud-demo');
-    bc.postMessage({ type: 'INSERT', payload: entry });
-    bc.close();
-  } catch (e) {
-    // Ignore BroadcastChannel errors in sandbox
-  }
-};
-
 // --- Storage Services ---
 
 export const uploadImage = async (blob: Blob, fileName: string): Promise<string | null> => {
@@ -88,109 +46,318 @@ export const uploadImage = async (blob: Blob, fileName: string): Promise<string
 
 // --- Database Services ---
 
-export const saveEntry = async (userName: string, inputText: string, imageUrl: string | null = null) => {
-  if (!isSupabaseConfigured) {
-    console.warn("Supabase not configured. Mocking DB insert.");
-    
-    // Save to local memory store
-    const newEntry: WordCloudEntry = {
-      id: Date.now(),
-      user_name: userName,
-      input_text: inputText,
-      image_url: imageUrl,
-      created_at: new Date().toISOString()
-    };
-    localEntries.push(newEntry);
-
-    // Safe Broadcast
-    safeBroadcast(newEntry);
-    
-    return { data: { id: newEntry.id }, error: null };
-  }
+// Postgres error code for a unique constraint violation
+const UNIQUE_VIOLATION = '23505';
 
-  return await supabase
+export const saveEntry = async ({ session_id, user_name, input_text, image_url = null, status = 'approved', question_id = null, device_id = null, client_id = null }: NewEntry): Promise<StoreResult<{ id?: number }>> => {
+  const { data, error } = await supabase
     .from('entries')
     .insert([
-      { user_name: userName, input_text: inputText, image_url: imageUrl },
+      { session_id, user_name, input_text, image_url, status, question_id, device_id, client_id },
     ])
-    .select();
+    .select('id')
+    .single();
+
+  // client_id is unique: a retry of an entry that already arrived is a success, not a duplicate
+  if (error?.code === UNIQUE_VIOLATION) {
+    return { data: {}, error: null };
+  }
+
+  if (error) {
+    console.error('Error saving entry:', error);
+    return { data: null, error: new Error(error.message) };
+  }
+
+  return { data: { id: data?.id }, error: null };
 };
 
-export const fetchAllTexts = async (): Promise<WordCloudEntry[]> => {
-  if (!isSupabaseConfigured) {
-    // Return local memory store sorted by newest first
-    return [...localEntries].sort((a, b) => 
-      (b.created_at || '').localeCompare(a.created_at || '')
-    );
+// Rows per request; Supabase caps a single response at 1000 rows by default
+const PAGE_SIZE = 1000;
+// Tries per page before the whole load fails
+const PAGE_ATTEMPTS = 3;
+
+const fetchEntryPage = (sessionId: string, beforeId: number | null) => {
+  let query = supabase
+    .from('entries')
+    .select('id, session_id, question_id, device_id, client_id, input_text, user_name, status, created_at');
+
+  // Rows saved before sessions existed have no session_id and belong to the default session
+  query = sessionId === DEFAULT_SESSION_ID
+    ? query.or(`session_id.eq.${sessionId},session_id.is.null`)
+    : query.eq('session_id', sessionId);
+
+  if (beforeId !== null) query = query.lt('id', beforeId);
+  return query.order('id', { ascending: false }).limit(PAGE_SIZE);
+};
+
+export const fetchAllTexts = async (sessionId: string): Promise<WordCloudEntry[]> => {
+  const entries: WordCloudEntry[] = [];
+  // Pages walk back by id, which stays put while new answers arrive (offsets would shift)
+  let beforeId: number | null = null;
+
+  while (true) {
+    let { data, error } = await fetchEntryPage(sessionId, beforeId);
+    for (let attempt = 1; error && attempt < PAGE_ATTEMPTS; attempt++) {
+      await new Promise(resolve => setTimeout(resolve, attempt * 1000));
+      ({ data, error } = await fetchEntryPage(sessionId, beforeId));
+    }
+    // A partial history would show counts that look complete but aren't
+    if (error || !data) {
+      console.error('Error fetching entries:', error);
+      throw new Error(`Loaded ${entries.length} entries before failing: ${error?.message}`);
+    }
+
+    entries.push(...(data as WordCloudEntry[]));
+    if (data.length < PAGE_SIZE) break;
+    beforeId = data[data.length - 1].id;
   }
 
-  const { data, error } = await supabase
+  // Newest first, matching the other backends
+  return entries.sort((a, b) => (b.created_at || '').localeCompare(a.created_at || ''));
+};
+
+export const deleteEntry = async (id: number): Promise<StoreResult<null>> => {
+  const { error } = await supabase
+    .from('entries')
+    .delete()
+    .eq('id', id);
+
+  if (error) {
+    console.error('Error deleting entry:', error);
+    return { data: null, error: new Error(error.message) };
+  }
+
+  return { data: null, error: null };
+};
+
+export const setEntryStatus = async (id: number, status: EntryStatus): Promise<StoreResult<null>> => {
+  const { error } = await supabase
     .from('entries')
-    .select('input_text, user_name, created_at')
-    .order('created_at', { ascending: false })
-    .limit(1000); // Limit to last 1000 entries for performance
+    .update({ status })
+    .eq('id', id);
+
+  if (error) {
+    console.error('Error updating entry status:', error);
+    return { data: null, error: new Error(error.message) };
+  }
+
+  return { data: null, error: null };
+};
+
+// --- Settings Services ---
+
+export const getSetting = async <T>(key: string): Promise<T | null> => {
+  const { data, error } = await supabase
+    .from('settings')
+    .select('value')
+    .eq('key', key)
+    .maybeSingle();
+
+  if (error) {
+    console.error('Error fetching setting:', error);
+    return null;
+  }
+
+  return (data?.value ?? null) as T | null;
+};
+
+export const setSetting = async <T>(key: string, value: T): Promise<StoreResult<null>> => {
+  const { error } = await supabase
+    .from('settings')
+    .upsert({ key, value });
 
   if (error) {
-    console.error('Error fetching entries:', error);
+    console.error('Error saving setting:', error);
+    return { data: null, error: new Error(error.message) };
+  }
+
+  return { data: null, error: null };
+};
+
+// --- Session Services ---
+
+export const fetchSessions = async (): Promise<EventSession[]> => {
+  const { data, error } = await supabase
+    .from('sessions')
+    .select('id, name, created_at, archived')
+    .order('created_at', { ascending: false });
+
+  if (error) {
+    console.error('Error fetching sessions:', error);
     return [];
   }
 
-  return data as WordCloudEntry[];
+  return data as EventSession[];
 };
 
-// --- Realtime Services ---
+export const createSession = async (name: string): Promise<StoreResult<EventSession>> => {
+  const session = buildSession(name);
+  const { error } = await supabase.from('sessions').insert([session]);
 
-export const subscribeToNewEntries = (onNewEntry: (entry: WordCloudEntry) => void): (() => void) => {
-  if (!isSupabaseConfigured) {
-    // Fallback for demo mode
-    // 1. Subscribe to local memory emitter (safe)
-    const unsubscribeLocal = InMemoryEmitter.subscribe((event: any) => {
-       if (event.type === 'INSERT') onNewEntry(event.payload);
-    });
+  if (error) {
+    console.error('Error creating session:', error);
+    return { data: null, error: new Error(error.message) };
+  }
 
-    // 2. Try subscribing to BroadcastChannel (might fail in sandbox)
-    let bc: BroadcastChannel | null = null;
-    try {
-      bc = new BroadcastChannel('word-cloud-demo');
-      bc.onmessage = (event) => {
-        if (event.data?.type === 'INSERT') {
-          // Avoid duplicates if possible, but simple is fine for demo
-          // Ideally check ID, but for now we rely on the fact that InMemoryEmitter handles the local tab
-          // and BroadcastChannel handles ONLY other tabs.
-          // Actually, BroadcastChannel receives messages from OTHER tabs, not the sender.
-          // So we need both? 
-          // For simplicity in this demo fix: Just use InMemory for current tab updates.
-          // If the user opens a second tab, BroadcastChannel handles it.
-          onNewEntry(event.data.payload);
-        }
-      };
-    } catch (e) {
-      console.warn("Realtime sync across tabs disabled (Sandbox restricted)");
-    }
+  return { data: session, error: null };
+};
+
+export const setSessionArchived = async (id: string, archived: boolean): Promise<StoreResult<null>> => {
+  const { error } = await supabase
+    .from('sessions')
+    .update({ archived })
+    .eq('id', id);
 
-    return () => {
-      unsubscribeLocal();
-      if (bc) bc.close();
-    };
+  if (error) {
+    console.error('Error archiving session:', error);
+    return { data: null, error: new Error(error.message) };
   }
 
+  return { data: null, error: null };
+};
+
+// --- Realtime Services ---
+
+export const subscribeToNewEntries = (
+  sessionId: string,
+  onChange: (entry: WordCloudEntry, event: EntryEvent) => void,
+  onHealth?: (health: ConnectionHealth) => void
+): (() => void) => {
+  // Realtime filters only support a single eq, so the default session (which also
+  // includes rows with a null session_id) is filtered client-side instead
+  const filter = sessionId === DEFAULT_SESSION_ID ? undefined : `session_id=eq.${sessionId}`;
+  let lastSyncAt: number | null = null;
+
+  const handleChange = (payload: { eventType: string; new: unknown; old: unknown }) => {
+    lastSyncAt = Date.now();
+    onHealth?.({ state: 'connected', lastSyncAt });
+
+    if (payload.eventType === 'DELETE') {
+      // Without REPLICA IDENTITY FULL the old row is only its id, so the session can't be
+      // checked; pages ignore deletes of entries they don't have
+      onChange(payload.old as WordCloudEntry, 'delete');
+      return;
+    }
+    const entry = payload.new as WordCloudEntry;
+    if (matchesSession(entry, sessionId)) onChange(entry, payload.eventType === 'UPDATE' ? 'update' : 'insert');
+  };
+
+  // UPDATE carries moderation status changes and edits; the row is re-announced under the same id.
+  // Realtime can't filter DELETE events, so those arrive for every session.
   const channel = supabase
-    .channel('table-db-changes')
-    .on(
-      'postgres_changes',
-      {
-        event: 'INSERT',
-        schema: 'public',
-        table: 'entries',
-      },
-      (payload) => {
-        const newEntry = payload.new as WordCloudEntry;
-        onNewEntry(newEntry);
-      }
-    )
-    .subscribe();
+    .channel(`entries-${sessionId}`)
+    .on('postgres_changes', { event: 'INSERT', schema: 'public', table: 'entries', filter }, handleChange)
+    .on('postgres_changes', { event: 'UPDATE', schema: 'public', table: 'entries', filter }, handleChange)
+    .on('postgres_changes', { event: 'DELETE', schema: 'public', table: 'entries' }, handleChange)
+    .subscribe((status) => {
+      // The client rejoins a dropped channel by itself; until then changes are not arriving
+      if (status === 'SUBSCRIBED') lastSyncAt = Date.now();
+      const state = status === 'SUBSCRIBED' ? 'connected'
+        : status === 'CLOSED' || !navigator.onLine ? 'offline'
+        : 'degraded';
+      onHealth?.({ state, lastSyncAt });
+    });
 
   return () => {
     supabase.removeChannel(channel);
   };
-};
\ No newline at end of file
+};
+
+// --- Presenter commands ---
+// Sent as Realtime broadcast messages; they are not stored in the database
+
+const commandChannelName = (sessionId: string) => `control-${sessionId}`;
+
+interface CommandChannel {
+  channel: RealtimeChannel;
+  status: string | null;
+  listeners: Set<(command: LiveCommand) => void>;
+  // Sends waiting for the channel to join
+  waiters: Set<{ resolve: () => void; reject: (error: Error) => void }>;
+  users: number;
+}
+
+// One channel per session, shared by the page's listener and its sends. Two channels on the
+// same topic share a single join, so removing one after a send would also drop the listener.
+const commandChannels = new Map<string, CommandChannel>();
+
+const acquireCommandChannel = (sessionId: string): CommandChannel => {
+  let shared = commandChannels.get(sessionId);
+  if (!shared) {
+    const listeners = new Set<(command: LiveCommand) => void>();
+    const waiters: CommandChannel['waiters'] = new Set();
+    const channel = supabase
+      .channel(commandChannelName(sessionId))
+      .on('broadcast', { event: 'command' }, ({ payload }) => listeners.forEach(listener => listener(payload as LiveCommand)));
+    const created: CommandChannel = { channel, status: null, listeners, waiters, users: 0 };
+
+    channel.subscribe((status) => {
+      created.status = status;
+      if (status === 'SUBSCRIBED') {
+        waiters.forEach(waiter => waiter.resolve());
+      } else {
+        // CHANNEL_ERROR, TIMED_OUT or CLOSED: the send can't go out now
+        waiters.forEach(waiter => waiter.reject(new Error(`Command channel ${status}`)));
+      }
+      waiters.clear();
+    });
+    commandChannels.set(sessionId, created);
+    shared = created;
+  }
+  shared.users++;
+  return shared;
+};
+
+const releaseCommandChannel = (sessionId: string, shared: CommandChannel) => {
+  shared.users--;
+  if (shared.users > 0 || commandChannels.get(sessionId) !== shared) return;
+  commandChannels.delete(sessionId);
+  shared.waiters.forEach(waiter => waiter.reject(new Error('Command channel removed')));
+  supabase.removeChannel(shared.channel);
+};
+
+const waitForJoin = (shared: CommandChannel): Promise<void> => {
+  if (shared.status === 'SUBSCRIBED') return Promise.resolve();
+  return new Promise((resolve, reject) => shared.waiters.add({ resolve, reject }));
+};
+
+export const sendCommand = async (sessionId: string, command: LiveCommand): Promise<StoreResult<null>> => {
+  const shared = acquireCommandChannel(sessionId);
+  try {
+    await waitForJoin(shared);
+    const response = await shared.channel.send({ type: 'broadcast', event: 'command', payload: command });
+    if (response !== 'ok') throw new Error(`Command not delivered: ${response}`);
+    return { data: null, error: null };
+  } catch (error) {
+    console.error('Error sending command to Supabase:', error);
+    return { data: null, error: error as Error };
+  } finally {
+    releaseCommandChannel(sessionId, shared);
+  }
+};
+
+export const subscribeCommands = (sessionId: string, onCommand: (command: LiveCommand) => void): (() => void) => {
+  const shared = acquireCommandChannel(sessionId);
+  shared.listeners.add(onCommand);
+
+  return () => {
+    shared.listeners.delete(onCommand);
+    releaseCommandChannel(sessionId, shared);
+  };
+};
+
+export const supabaseStore: EntryStore = {
+  save: saveEntry,
+  list: fetchAllTexts,
+  subscribe: subscribeToNewEntries,
+  delete: deleteEntry,
+  setStatus: setEntryStatus,
+  status: () => ({ backend: 'supabase', configured: isSupabaseConfigured, remote: true }),
+  listSessions: fetchSessions,
+  createSession,
+  setSessionArchived,
+  getSetting,
+  setSetting,
+  sendCommand,
+  subscribeCommands,
+};
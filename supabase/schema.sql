@@ -0,0 +1,68 @@
+-- Tables for the `supabase` entry store (services/supabaseClient.ts).
+-- Run in the Supabase SQL editor. Safe to run again, and on a project created before
+-- sessions, moderation and the outbox existed: missing columns are added.
+--
+-- The app reads and writes every table with the anon key, so if row level security is on,
+-- its policies must allow select, insert, update and delete on all three tables.
+
+-- --- Entries ---
+
+create table if not exists entries (
+  id bigint generated by default as identity primary key,
+  created_at timestamptz not null default now(),
+  user_name text,
+  input_text text not null,
+  image_url text
+);
+
+-- Rows without a session_id belong to the default `main` session
+alter table entries add column if not exists session_id text;
+-- 'pending', 'approved' or 'hidden'; rows saved before moderation existed have none and count as approved
+alter table entries add column if not exists status text check (status in ('pending', 'approved', 'hidden'));
+alter table entries add column if not exists question_id text;
+alter table entries add column if not exists device_id text;
+alter table entries add column if not exists client_id text;
+
+-- The outbox resends an entry with the same client_id until it is confirmed. The app treats the
+-- unique violation (23505) as "already delivered"; without this index every retry is a duplicate.
+-- Creating it fails if duplicates are already stored; find them with
+--   select client_id, count(*) from entries where client_id is not null group by 1 having count(*) > 1;
+create unique index if not exists entries_client_id_key on entries (client_id);
+
+create index if not exists entries_session_id_id on entries (session_id, id);
+
+-- New entries always start unreviewed; only the moderation page approves or hides them
+-- (see displayStatus in utils/moderation.ts)
+create or replace function entries_start_pending() returns trigger language plpgsql as $$
+begin
+  new.status := 'pending';
+  return new;
+end;
+$$;
+
+drop trigger if exists entries_start_pending on entries;
+create trigger entries_start_pending before insert on entries
+  for each row execute function entries_start_pending();
+
+-- --- Sessions ---
+
+create table if not exists sessions (
+  id text primary key,
+  name text not null,
+  created_at timestamptz not null default now(),
+  archived boolean not null default false
+);
+
+-- --- Settings ---
+-- Small JSON values shared by every device: moderation rules, questions, live control state
+
+create table if not exists settings (
+  key text primary key,
+  value jsonb
+);
+
+-- --- Realtime ---
+-- Live pages receive inserts, updates and deletes of entries. Run once; it fails if the
+-- table is already in the publication.
+
+alter publication supabase_realtime add table entries;
@@ -1,8 +1,19 @@
+// Entries without a status predate moderation and count as approved
+export type EntryStatus = 'pending' | 'approved' | 'hidden';
+
 export interface WordCloudEntry {
   id?: number;
+  session_id?: string | null;
   user_name: string;
   input_text: string;
   image_url?: string | null;
+  status?: EntryStatus;
+  // Question the entry answers; null for entries sent while no question was active
+  question_id?: string | null;
+  // Anonymous ID of the browser that sent it (see utils/device)
+  device_id?: string | null;
+  // Set by the sending device and kept across retries, so a resent entry is stored once
+  client_id?: string | null;
   created_at?: string;
 }
 
@@ -16,14 +27,413 @@ export interface WordFrequency {
   rotate?: number;
 }
 
+// --- Tokenization ---
+
+export type TokenizationMode = 'phrase' | 'word' | 'ngram';
+
+export type StopWordLanguage = 'th' | 'en';
+
+export interface TokenizeOptions {
+  mode: TokenizationMode;
+  // Words per n-gram in 'ngram' mode
+  ngramSize?: number;
+  // Built-in stop-word lists to apply in 'word' and 'ngram' modes
+  stopWordLanguages?: StopWordLanguage[];
+  // Extra stop words on top of the built-in lists
+  customStopWords?: string[];
+}
+
+// The tokenizer options the organizer sets on the live display; the mode is chosen separately
+export type TokenizeSettings = Required<Omit<TokenizeOptions, 'mode'>>;
+
+export interface NormalizeOptions {
+  // NFC, case folding, punctuation/whitespace collapsing and zero-width removal before counting
+  enabled?: boolean;
+  // Merge near-identical phrases by edit distance
+  fuzzyMerge?: boolean;
+  // 0..1, how similar two phrases must be to merge (0.8 allows 1 edit per 5 characters)
+  similarity?: number;
+}
+
+export interface GenerationOptions {
+  tokenize?: TokenizeOptions;
+  normalize?: NormalizeOptions;
+  // Same seed + same entries = identical cloud
+  seed?: number;
+  rotation?: RotationOptions;
+  // 'pixel' packs words by their glyph shapes; 'box' uses padded rectangles
+  collision?: 'pixel' | 'box';
+  shape?: ShapeName;
+  // Data URL of a PNG/SVG silhouette, used when shape is 'image'
+  shapeImage?: string | null;
+  // Placed words of the last layout, kept in place where possible (live view)
+  previousLayout?: WordFrequency[];
+  theme?: Theme;
+  sizing?: Partial<SizingOptions>;
+  // shapeImage already decoded; takes precedence where images can't be decoded (in a worker)
+  shapeAlpha?: ImageAlpha | null;
+}
+
+// Reports how many words have been placed so far
+export interface GenerationProgress {
+  done: number;
+  total: number;
+}
+
+// Per-call controls that can't be serialized with the options
+export interface GenerationControl {
+  signal?: AbortSignal;
+  onProgress?: (progress: GenerationProgress) => void;
+}
+
+// How counts map to font sizes between min and max:
+// 'linear' is proportional; 'sqrt' and 'log' lift rare words when one answer dominates;
+// 'rank' spaces sizes evenly by position, ignoring how far apart counts are
+export type ScalingMode = 'linear' | 'sqrt' | 'log' | 'rank';
+
+export interface SizingOptions {
+  scaling: ScalingMode;
+  minFontSize: number;
+  maxFontSize: number;
+  // Most frequent words kept; the rest are reported as unplaced with reason 'limit'
+  maxWords: number;
+  // Words counted fewer times are left out entirely
+  minCount: number;
+}
+
+// --- Themes ---
+
+// 'random': seeded per word. 'rank': palette in order of frequency. 'gradient': blend across the palette by rank.
+export type ColorMode = 'random' | 'rank' | 'gradient';
+
+export type ThemeBackground =
+  | { type: 'color'; color: string }
+  | { type: 'transparent' }
+  // Data URL or image URL, drawn to cover the canvas
+  | { type: 'image'; src: string };
+
+export interface Theme {
+  id: string;
+  name: string;
+  palette: string[];
+  colorMode: ColorMode;
+  background: ThemeBackground;
+  fontFamily: string;
+}
+
+// --- Layout ---
+
+export type ShapeName = 'rectangle' | 'ellipse' | 'circle' | 'heart' | 'cloud' | 'image';
+
+// True where words may be placed, in layout pixel coordinates
+export type ShapeMask = (x: number, y: number) => boolean;
+
+// Alpha channel of a shape image, sampled on a grid `step` layout pixels apart
+export interface ImageAlpha {
+  width: number;
+  height: number;
+  step: number;
+  data: Uint8Array;
+}
+
+// Why a word was left out:
+// 'crowded': the canvas/shape had room for it, but other words were in the way
+// 'shape': no spot inside the canvas and shape is big enough for it
+// 'limit': past the max words setting, so it was never laid out
+export type UnplacedReason = 'crowded' | 'shape' | 'limit';
+
+export interface UnplacedWord extends WordFrequency {
+  reason: UnplacedReason;
+}
+
+export interface LayoutResult {
+  placed: WordFrequency[];
+  unplaced: UnplacedWord[];
+}
+
+// Returns the rendered width of text at a font size in px
+export type TextMeasurer = (text: string, fontSize: number) => number;
+
+// 'orthogonal' picks 0 or 90 degrees; 'random' any angle between minAngle and maxAngle
+export type RotationMode = 'none' | 'orthogonal' | 'random';
+
+export interface RotationOptions {
+  mode: RotationMode;
+  minAngle?: number;
+  maxAngle?: number;
+}
+
+// 1-bit mask of a rendered word, rows packed into 32-bit words (most significant bit first)
+export interface GlyphSprite {
+  width: number;
+  height: number;
+  wordsPerRow: number;
+  bits: Uint32Array;
+}
+
+// Renders words into sprites at `scale` of the layout's pixel size
+export interface GlyphRasterizer {
+  scale: number;
+  rasterize: (text: string, fontSize: number, rotate: number) => GlyphSprite;
+}
+
+export interface LayoutOptions {
+  width: number;
+  height: number;
+  minFontSize: number;
+  maxFontSize: number;
+  scaling: ScalingMode;
+  palette: string[];
+  colorMode: ColorMode;
+  seed: number;
+  measureText: TextMeasurer;
+  rotation: RotationOptions;
+  // When set, collisions are tested on glyph masks instead of padded bounding boxes
+  rasterizer?: GlyphRasterizer;
+  // When set, words must lie entirely inside the mask
+  mask?: ShapeMask;
+  // Earlier layout whose word positions should be kept where they still fit
+  previous?: WordFrequency[];
+  // Called after each word is placed or given up on
+  onProgress?: (done: number, total: number) => void;
+}
+
 export interface GenerationResult {
   success: boolean;
+  blob?: Blob | null;
   imageUrl?: string;
+  // Positioned words, for renderers that draw the layout themselves
+  placed?: WordFrequency[];
+  // Words that did not fit the canvas or shape, or were cut by the word limit
+  unplaced: UnplacedWord[];
+  timing?: GenerationTiming;
   error?: string;
 }
 
+// Milliseconds spent in each stage of a generation
+export interface GenerationTiming {
+  tokenize: number;
+  layout: number;
+  render?: number;
+  total: number;
+}
+
 export interface CanvasConfig {
   width: number;
   height: number;
   fontFamily: string;
-}
\ No newline at end of file
+}
+
+// Fields a page supplies when submitting; the store fills in id and created_at
+export type NewEntry = Pick<WordCloudEntry, 'session_id' | 'user_name' | 'input_text' | 'image_url' | 'status' | 'question_id' | 'device_id' | 'client_id'>;
+
+export interface EventSession {
+  id: string;
+  name: string;
+  created_at: string;
+  archived: boolean;
+}
+
+// --- Questions ---
+
+// A prompt participants answer; a session asks several in sequence
+export interface Question {
+  id: string;
+  text: string;
+  // Most answers one participant may send to this question; null for no limit
+  maxAnswers: number | null;
+}
+
+// --- Live Display ---
+
+export type QrCorner = 'top-left' | 'top-right' | 'bottom-left' | 'bottom-right';
+
+// QR code for the submission page, drawn over a corner of the cloud
+export interface QrOverlaySettings {
+  visible: boolean;
+  // Width of the code on screen in px
+  size: number;
+  corner: QrCorner;
+}
+
+// 'cloud': cloud only. 'split': cloud with the leaderboard beside or below it. 'leaderboard': ranking only.
+export type LeaderboardLayout = 'cloud' | 'split' | 'leaderboard';
+
+export interface LeaderboardSettings {
+  layout: LeaderboardLayout;
+  // Where the leaderboard sits in 'split' layout
+  position: 'side' | 'bottom';
+  // Phrases listed, most frequent first
+  topN: number;
+}
+
+// Presenter choices for the projector, persisted per browser
+export interface DisplaySettings {
+  tokenizeMode: TokenizationMode;
+  // Stop words and n-gram size for the 'word' and 'ngram' modes
+  tokenize: TokenizeSettings;
+  fuzzyMerge: boolean;
+  rotation: RotationMode;
+  shape: ShapeName;
+  shapeImage: string | null;
+  // Keep words where they were when new entries arrive, instead of laying out from scratch
+  stableLayout: boolean;
+  // A copy of a preset, edited in place when the organizer customizes it
+  theme: Theme;
+  sizing: SizingOptions;
+  qr: QrOverlaySettings;
+  leaderboard: LeaderboardSettings;
+  // Only entries from the last this many minutes count; null for all time
+  timeWindowMinutes: number | null;
+}
+
+// Looking back at an event instead of following it live
+export interface ReplayState {
+  // Moment shown, epoch ms
+  at: number;
+  playing: boolean;
+  // Event time that passes per second of playback
+  speed: number;
+}
+
+// --- Presenter control ---
+
+// What the presenter has set for every open live display of a session
+export interface LiveControlState {
+  // Frozen: the cloud stops updating until resumed
+  paused: boolean;
+  // Entries created at or before this time are hidden (soft reset); null shows everything
+  clearedAt: string | null;
+  showCounter: boolean;
+  // Question shown on the submission page; new entries are tagged with it
+  activeQuestion: Question | null;
+  // Display settings pushed from the admin page, applied over each projector's own
+  display: Partial<DisplaySettings>;
+}
+
+export type LiveCommand =
+  | { type: 'pause' }
+  | { type: 'resume' }
+  | { type: 'clear'; at: string }
+  | { type: 'restore' }
+  | { type: 'counter'; visible: boolean }
+  | { type: 'question'; question: Question | null }
+  | { type: 'display'; settings: Partial<DisplaySettings> }
+  // Full state, for backends that poll instead of pushing commands
+  | { type: 'sync'; state: LiveControlState };
+
+// --- Moderation ---
+
+// 'pre': every entry waits for approval. 'post': entries go live unless they hit the blocklist.
+export type ModerationMode = 'pre' | 'post';
+
+// 'anonymous': no names are asked for. 'optional': the join screen can be skipped. 'required': a name is needed to answer.
+export type NameMode = 'anonymous' | 'optional' | 'required';
+
+export interface ModerationSettings {
+  mode: ModerationMode;
+  blocklist: string[];
+  limits: SubmissionLimits;
+  nameMode: NameMode;
+}
+
+// --- Submission limits ---
+// Checked on each device against its own history, so a participant can't flood the cloud
+
+export interface SubmissionLimits {
+  // Seconds a device waits between two submissions; 0 for none
+  cooldownSeconds: number;
+  // Answers per device to one question, unless the question sets its own; null for no limit
+  maxPerQuestion: number | null;
+  // Refuse a text the same device already sent to the same question
+  rejectDuplicates: boolean;
+}
+
+// One submission remembered on this device
+export interface SubmissionRecord {
+  questionId: string | null;
+  // Normalized text, for duplicate checks
+  text: string;
+  // Epoch milliseconds
+  at: number;
+}
+
+export type SubmissionRefusal =
+  | { reason: 'cooldown'; waitSeconds: number }
+  | { reason: 'limit'; max: number }
+  | { reason: 'duplicate' };
+
+// --- Outbox ---
+
+export type OutboxStatus = 'queued' | 'sending' | 'delivered' | 'failed';
+
+// A submission waiting in, or recently sent from, this device's outbox
+export interface OutboxItem {
+  // Same as entry.client_id
+  id: string;
+  entry: NewEntry;
+  status: OutboxStatus;
+  attempts: number;
+  // Epoch milliseconds
+  queuedAt: number;
+  nextAttemptAt: number;
+  error?: string;
+}
+
+// --- Storage Backends ---
+
+export type StoreBackend = 'sheets' | 'supabase' | 'local';
+
+// What happened to an entry announced by a store subscription
+export type EntryEvent = 'insert' | 'update' | 'delete';
+
+export type ConnectionState = 'connected' | 'degraded' | 'offline';
+
+// How a live subscription is keeping up with its backend
+export interface ConnectionHealth {
+  state: ConnectionState;
+  // Epoch milliseconds of the last successful sync, null before the first
+  lastSyncAt: number | null;
+}
+
+export interface StoreStatus {
+  backend: StoreBackend;
+  configured: boolean;
+  // True when entries leave this device (Sheets / Supabase), false for the local store
+  remote: boolean;
+}
+
+export interface StoreResult<T> {
+  data: T | null;
+  error: Error | null;
+}
+
+/**
+ * Common contract for every place entries can live.
+ * Pages talk to the active store only, never to a specific client.
+ */
+export interface EntryStore {
+  save: (entry: NewEntry) => Promise<StoreResult<{ id?: number }>>;
+  // Rejects when the history could only be loaded in part (Supabase pages through it)
+  list: (sessionId: string) => Promise<WordCloudEntry[]>;
+  // Called for new entries, again with the same id when an entry changes, and when one is
+  // deleted (a deleted entry may carry only its id). Remote stores also report their
+  // connection health; the local store never calls onHealth.
+  subscribe: (
+    sessionId: string,
+    onChange: (entry: WordCloudEntry, event: EntryEvent) => void,
+    onHealth?: (health: ConnectionHealth) => void
+  ) => (() => void);
+  delete: (id: number) => Promise<StoreResult<null>>;
+  setStatus: (id: number, status: EntryStatus) => Promise<StoreResult<null>>;
+  status: () => StoreStatus;
+  listSessions: () => Promise<EventSession[]>;
+  createSession: (name: string) => Promise<StoreResult<EventSession>>;
+  setSessionArchived: (id: string, archived: boolean) => Promise<StoreResult<null>>;
+  // Small JSON settings shared by every device, e.g. moderation rules per session
+  getSetting: <T>(key: string) => Promise<T | null>;
+  setSetting: <T>(key: string, value: T) => Promise<StoreResult<null>>;
+  // Presenter commands to every open live display of a session
+  sendCommand: (sessionId: string, command: LiveCommand) => Promise<StoreResult<null>>;
+  subscribeCommands: (sessionId: string, onCommand: (command: LiveCommand) => void) => (() => void);
+}
@@ -0,0 +1,162 @@
+import { CANVAS_CONFIG } from '../constants';
+import { GenerationControl, GenerationOptions, GenerationResult, ImageAlpha } from '../types';
+import { CANCELLED, generateWordCloudBlob, generateWordCloudLayout } from './wordCloudGenerator';
+import { loadImageAlpha } from './shapes';
+import type { GenerationMessage, GenerationOutput, GenerationRequest } from './generationWorker';
+
+interface ActiveJob {
+  jobId: number;
+  output: GenerationOutput;
+  entries: string[];
+  options: GenerationOptions;
+  control: GenerationControl;
+  resolve: (result: GenerationResult) => void;
+  // The worker has finished loading fonts and is running the layout
+  started: boolean;
+}
+
+let worker: Worker | null = null;
+// Set when the worker fails to start or crashes; generation then stays on the main thread
+let workerFailed = false;
+let activeJob: ActiveJob | null = null;
+let nextJobId = 1;
+let shapeAlphaCache: { src: string; alpha: ImageAlpha | null } | null = null;
+
+const generateOnMainThread = (
+  output: GenerationOutput,
+  entries: string[],
+  options: GenerationOptions,
+  control: GenerationControl
+) => (output === 'layout' ? generateWordCloudLayout : generateWordCloudBlob)(entries, options, control);
+
+const supportsWorker = () =>
+  !workerFailed &&
+  typeof Worker !== 'undefined' &&
+  typeof OffscreenCanvas !== 'undefined' &&
+  'convertToBlob' in OffscreenCanvas.prototype;
+
+const handleMessage = (event: MessageEvent<GenerationMessage>) => {
+  const message = event.data;
+  const job = activeJob;
+  // Messages from a job that was replaced before the worker noticed
+  if (!job || message.jobId !== job.jobId) return;
+
+  if (message.type === 'started') {
+    job.started = true;
+    return;
+  }
+  if (message.type === 'progress') {
+    job.control.onProgress?.({ done: message.done, total: message.total });
+    return;
+  }
+
+  activeJob = null;
+  job.resolve(message.result);
+};
+
+const handleError = (event: ErrorEvent) => {
+  console.error('Generation worker failed, falling back to the main thread:', event.message);
+  workerFailed = true;
+  stopWorker();
+
+  const job = activeJob;
+  activeJob = null;
+  if (job) generateOnMainThread(job.output, job.entries, job.options, job.control).then(job.resolve);
+};
+
+const getWorker = (): Worker => {
+  if (!worker) {
+    worker = new Worker(new URL('./generationWorker.ts', import.meta.url), { type: 'module' });
+    worker.onmessage = handleMessage;
+    worker.onerror = handleError;
+  }
+  return worker;
+};
+
+const stopWorker = () => {
+  worker?.terminate();
+  worker = null;
+};
+
+// A job still waiting for fonts is skipped and the worker kept. A running layout can't be
+// interrupted, so the worker is replaced instead; the new one loads fonts from the HTTP cache
+const cancelActiveJob = () => {
+  if (!activeJob) return;
+  if (activeJob.started) {
+    stopWorker();
+  } else {
+    const request: GenerationRequest = { type: 'cancel', jobId: activeJob.jobId };
+    worker?.postMessage(request);
+  }
+  activeJob.resolve(CANCELLED);
+  activeJob = null;
+};
+
+/**
+ * Shape images need the DOM to decode, so they are turned into an alpha grid here
+ * and sent to the worker as data. The last image is cached since it rarely changes.
+ */
+const withShapeAlpha = async (options: GenerationOptions): Promise<GenerationOptions> => {
+  if (options.shape !== 'image' || !options.shapeImage || options.shapeAlpha) return options;
+
+  if (shapeAlphaCache?.src !== options.shapeImage) {
+    const alpha = await loadImageAlpha(options.shapeImage, CANVAS_CONFIG.width, CANVAS_CONFIG.height);
+    shapeAlphaCache = { src: options.shapeImage, alpha };
+  }
+  return { ...options, shapeImage: null, shapeAlpha: shapeAlphaCache.alpha };
+};
+
+const runJob = async (
+  output: GenerationOutput,
+  entries: string[],
+  options: GenerationOptions,
+  control: GenerationControl
+): Promise<GenerationResult> => {
+  if (!supportsWorker()) return generateOnMainThread(output, entries, options, control);
+
+  const resolvedOptions = await withShapeAlpha(options);
+  if (control.signal?.aborted) return CANCELLED;
+
+  cancelActiveJob();
+
+  return new Promise((resolve) => {
+    const jobId = nextJobId++;
+    activeJob = { jobId, output, entries, options: resolvedOptions, control, resolve, started: false };
+
+    control.signal?.addEventListener('abort', () => {
+      if (activeJob?.jobId === jobId) cancelActiveJob();
+    }, { once: true });
+
+    const request: GenerationRequest = { type: 'generate', jobId, output, entries, options: resolvedOptions };
+    try {
+      getWorker().postMessage(request);
+    } catch (error) {
+      console.error('Error starting generation worker:', error);
+      workerFailed = true;
+      activeJob = null;
+      generateOnMainThread(output, entries, options, control).then(resolve);
+    }
+  });
+};
+
+/**
+ * Generates the PNG word cloud in a Web Worker with OffscreenCanvas, keeping the page responsive.
+ * Only one job runs at a time: starting a new one or aborting control.signal cancels the
+ * running job, which then resolves with the CANCELLED result.
+ * Falls back to the main thread where OffscreenCanvas is missing.
+ */
+export const generateWordCloudInBackground = (
+  entries: string[],
+  options: GenerationOptions = {},
+  control: GenerationControl = {}
+): Promise<GenerationResult> => runJob('png', entries, options, control);
+
+/**
+ * Like generateWordCloudInBackground, but only computes the layout (`placed` and `unplaced`)
+ * for views that draw the words themselves.
+ */
+export const layoutWordCloudInBackground = (
+  entries: string[],
+  options: GenerationOptions = {},
+  control: GenerationControl = {}
+): Promise<GenerationResult> => runJob('layout', entries, options, control);
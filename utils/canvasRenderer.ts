@@ -0,0 +1,143 @@
+import { CanvasConfig, GlyphRasterizer, TextMeasurer, WordFrequency } from '../types';
+import { spriteFromImageData } from './collisionMask';
+
+const fontFor = (size: number, fontFamily: string) => `bold ${size}px ${fontFamily}`;
+
+// Rendering works the same on a DOM canvas and on an OffscreenCanvas inside a worker
+export type Canvas2DContext = CanvasRenderingContext2D | OffscreenCanvasRenderingContext2D;
+
+export interface CanvasSurface {
+  canvas: HTMLCanvasElement | OffscreenCanvas;
+  ctx: Canvas2DContext | null;
+}
+
+/**
+ * Creates a 2D canvas, preferring OffscreenCanvas so the same code runs inside a worker.
+ */
+export const createCanvasSurface = (
+  width: number,
+  height: number,
+  settings?: CanvasRenderingContext2DSettings
+): CanvasSurface => {
+  if (typeof OffscreenCanvas !== 'undefined') {
+    const canvas = new OffscreenCanvas(width, height);
+    return { canvas, ctx: canvas.getContext('2d', settings) };
+  }
+  const canvas = document.createElement('canvas');
+  canvas.width = width;
+  canvas.height = height;
+  return { canvas, ctx: canvas.getContext('2d', settings) };
+};
+
+/**
+ * Encodes a canvas as PNG.
+ */
+export const canvasToPng = (canvas: HTMLCanvasElement | OffscreenCanvas): Promise<Blob | null> => {
+  // HTMLCanvasElement does not exist inside a worker, so check for the method instead
+  if ('convertToBlob' in canvas) {
+    return canvas.convertToBlob({ type: 'image/png' }).catch((error) => {
+      console.error('Error encoding PNG:', error);
+      return null;
+    });
+  }
+  return new Promise((resolve) => canvas.toBlob(resolve, 'image/png'));
+};
+
+/**
+ * Measures text with a real canvas so layout matches what gets drawn.
+ */
+export const createCanvasMeasurer = (ctx: Canvas2DContext, fontFamily: string): TextMeasurer => {
+  return (text, fontSize) => {
+    ctx.font = fontFor(fontSize, fontFamily);
+    return ctx.measureText(text).width;
+  };
+};
+
+// A fill color, a decoded image drawn to cover the canvas, or null for transparent
+export type CanvasBackground = string | ImageBitmap | null;
+
+/**
+ * Draws placed words onto a canvas, each centered on its x/y and rotated around that point.
+ */
+export const renderCanvas = (
+  ctx: Canvas2DContext,
+  words: WordFrequency[],
+  config: CanvasConfig,
+  background: CanvasBackground
+) => {
+  // Background
+  ctx.clearRect(0, 0, config.width, config.height);
+  if (typeof background === 'string') {
+    ctx.fillStyle = background;
+    ctx.fillRect(0, 0, config.width, config.height);
+  } else if (background) {
+    const cover = Math.max(config.width / background.width, config.height / background.height);
+    const width = background.width * cover;
+    const height = background.height * cover;
+    ctx.drawImage(background, (config.width - width) / 2, (config.height - height) / 2, width, height);
+  }
+
+  ctx.textBaseline = 'middle';
+  ctx.textAlign = 'center';
+
+  words.forEach(word => {
+    if (word.x === undefined || word.y === undefined) return;
+
+    ctx.save();
+    ctx.translate(word.x, word.y);
+    if (word.rotate) ctx.rotate((word.rotate * Math.PI) / 180);
+    ctx.font = fontFor(word.size, config.fontFamily);
+    ctx.fillStyle = word.color;
+    ctx.fillText(word.text, 0, 0);
+    ctx.restore();
+  });
+};
+
+// Glyph masks are drawn at reduced resolution; a quarter of the output size keeps
+// collision checks cheap while still following letter shapes closely
+const MASK_SCALE = 0.25;
+// Space kept around each glyph, in output px
+const GLYPH_PADDING = 6;
+
+/**
+ * Rasterizes words into collision sprites using a scratch canvas.
+ * Padding is added by stroking the text, so it follows the glyph outline.
+ */
+export const createGlyphRasterizer = (fontFamily: string): GlyphRasterizer | null => {
+  const { canvas, ctx } = createCanvasSurface(1, 1, { willReadFrequently: true });
+  if (!ctx) return null;
+
+  const rasterize = (text: string, fontSize: number, rotate: number) => {
+    const size = fontSize * MASK_SCALE;
+    const padding = GLYPH_PADDING * MASK_SCALE;
+
+    ctx.font = fontFor(size, fontFamily);
+    const textWidth = ctx.measureText(text).width;
+    const textHeight = size * 1.1;
+
+    const angle = (rotate * Math.PI) / 180;
+    const cos = Math.abs(Math.cos(angle));
+    const sin = Math.abs(Math.sin(angle));
+    const width = Math.ceil(textWidth * cos + textHeight * sin + padding * 2) + 2;
+    const height = Math.ceil(textWidth * sin + textHeight * cos + padding * 2) + 2;
+
+    // Resizing clears the canvas and resets its state
+    canvas.width = width;
+    canvas.height = height;
+    ctx.font = fontFor(size, fontFamily);
+    ctx.textAlign = 'center';
+    ctx.textBaseline = 'middle';
+    ctx.translate(width / 2, height / 2);
+    if (rotate) ctx.rotate(angle);
+    ctx.fillText(text, 0, 0);
+    if (padding > 0) {
+      ctx.lineWidth = padding * 2;
+      ctx.lineJoin = 'round';
+      ctx.strokeText(text, 0, 0);
+    }
+
+    return spriteFromImageData(ctx.getImageData(0, 0, width, height).data, width, height);
+  };
+
+  return { scale: MASK_SCALE, rasterize };
+};
@@ -0,0 +1,94 @@
+import { GlyphSprite } from '../types';
+
+/**
+ * Occupancy bitmap for the whole layout area, in the same packed format as GlyphSprite.
+ */
+export interface CollisionBoard {
+  width: number;
+  height: number;
+  wordsPerRow: number;
+  bits: Uint32Array;
+}
+
+export const createBoard = (width: number, height: number): CollisionBoard => {
+  const wordsPerRow = (width + 31) >> 5;
+  return { width, height, wordsPerRow, bits: new Uint32Array(wordsPerRow * height) };
+};
+
+/**
+ * Builds a sprite from RGBA pixel data: any non-transparent pixel is solid.
+ */
+export const spriteFromImageData = (data: Uint8ClampedArray, width: number, height: number): GlyphSprite => {
+  const wordsPerRow = (width + 31) >> 5;
+  const bits = new Uint32Array(wordsPerRow * height);
+  for (let y = 0; y < height; y++) {
+    for (let x = 0; x < width; x++) {
+      if (data[(y * width + x) * 4 + 3] > 0) {
+        bits[y * wordsPerRow + (x >> 5)] |= 1 << (31 - (x & 31));
+      }
+    }
+  }
+  return { width, height, wordsPerRow, bits };
+};
+
+/**
+ * Walks every sprite word against the board words it overlaps when its top-left is at (left, top).
+ * The visitor returns true to stop early.
+ */
+const forEachOverlap = (
+  board: CollisionBoard,
+  sprite: GlyphSprite,
+  left: number,
+  top: number,
+  visit: (index: number, value: number) => boolean
+): boolean => {
+  const shift = left & 31;
+  const startWord = left >> 5;
+
+  for (let row = 0; row < sprite.height; row++) {
+    const boardRow = (top + row) * board.wordsPerRow + startWord;
+    for (let w = 0; w < sprite.wordsPerRow; w++) {
+      const value = sprite.bits[row * sprite.wordsPerRow + w];
+      if (value === 0) continue;
+      if (visit(boardRow + w, value >>> shift)) return true;
+      if (shift !== 0 && startWord + w + 1 < board.wordsPerRow) {
+        if (visit(boardRow + w + 1, value << (32 - shift))) return true;
+      }
+    }
+  }
+  return false;
+};
+
+/**
+ * True if the sprite would leave the board or touch an occupied cell.
+ */
+export const boardCollides = (board: CollisionBoard, sprite: GlyphSprite, left: number, top: number): boolean => {
+  if (left < 0 || top < 0 || left + sprite.width > board.width || top + sprite.height > board.height) {
+    return true;
+  }
+  return forEachOverlap(board, sprite, left, top, (index, value) => (board.bits[index] & value) !== 0);
+};
+
+/**
+ * Marks the sprite's cells as occupied.
+ */
+export const boardPlace = (board: CollisionBoard, sprite: GlyphSprite, left: number, top: number) => {
+  forEachOverlap(board, sprite, left, top, (index, value) => {
+    board.bits[index] |= value;
+    return false;
+  });
+};
+
+/**
+ * Marks every cell whose center fails `allowed` as occupied, so words can only go inside a shape.
+ * `allowed` takes board cell coordinates.
+ */
+export const boardBlockOutside = (board: CollisionBoard, allowed: (x: number, y: number) => boolean) => {
+  for (let y = 0; y < board.height; y++) {
+    for (let x = 0; x < board.width; x++) {
+      if (!allowed(x + 0.5, y + 0.5)) {
+        board.bits[y * board.wordsPerRow + (x >> 5)] |= 1 << (31 - (x & 31));
+      }
+    }
+  }
+};
@@ -0,0 +1,27 @@
+/**
+ * Parses #rgb or #rrggbb into [r, g, b]. Anything else reads as black.
+ */
+const parseHex = (hex: string): [number, number, number] => {
+  let value = hex.trim().replace(/^#/, '');
+  if (value.length === 3) value = value.split('').map(c => c + c).join('');
+  const n = /^[0-9a-f]{6}$/i.test(value) ? parseInt(value, 16) : 0;
+  return [(n >> 16) & 255, (n >> 8) & 255, n & 255];
+};
+
+const toHex = (channels: number[]): string =>
+  '#' + channels.map(c => Math.round(c).toString(16).padStart(2, '0')).join('');
+
+/**
+ * Color at position t (0..1) along a ramp through the given hex stops.
+ */
+export const interpolateColor = (stops: string[], t: number): string => {
+  if (stops.length === 0) return '#000000';
+  if (stops.length === 1) return stops[0];
+
+  const position = Math.min(1, Math.max(0, t)) * (stops.length - 1);
+  const index = Math.min(stops.length - 2, Math.floor(position));
+  const local = position - index;
+  const from = parseHex(stops[index]);
+  const to = parseHex(stops[index + 1]);
+  return toHex(from.map((c, i) => c + (to[i] - c) * local));
+};
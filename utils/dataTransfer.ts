@@ -0,0 +1,107 @@
+import { WordCloudEntry, WordFrequency } from '../types';
+import { parseCsv, toCsv } from './csv';
+
+// Header names recognized as the answer column when importing a CSV, compared in lower case
+const TEXT_COLUMNS = ['text', 'input_text', 'answer', 'response', 'ข้อความ', 'คำตอบ'];
+
+/**
+ * Raw entries as CSV: one row per entry with its time, name and text.
+ */
+export const entriesToCsv = (entries: WordCloudEntry[]): string => {
+  return toCsv([
+    ['created_at', 'user_name', 'text', 'question_id', 'status'],
+    ...entries.map(entry => [
+      entry.created_at ?? '',
+      entry.user_name,
+      entry.input_text,
+      entry.question_id ?? '',
+      entry.status ?? 'approved',
+    ]),
+  ]);
+};
+
+export const entriesToJson = (entries: WordCloudEntry[]): string => {
+  return JSON.stringify(entries.map(entry => ({
+    created_at: entry.created_at ?? null,
+    user_name: entry.user_name,
+    text: entry.input_text,
+    question_id: entry.question_id ?? null,
+    status: entry.status ?? 'approved',
+  })), null, 2);
+};
+
+/**
+ * Counted phrases (see processPhrases) as CSV, with each phrase's share of all counts.
+ */
+export const frequenciesToCsv = (words: WordFrequency[]): string => {
+  const total = words.reduce((sum, word) => sum + word.count, 0) || 1;
+  return toCsv([
+    ['rank', 'text', 'count', 'percent'],
+    ...words.map((word, i) => [i + 1, word.text, word.count, ((word.count / total) * 100).toFixed(1)]),
+  ]);
+};
+
+/**
+ * Wraps CSV text in a Blob with a UTF-8 byte order mark, without which Excel reads Thai as mojibake.
+ */
+export const csvBlob = (csv: string): Blob => {
+  return new Blob(['\uFEFF' + csv], { type: 'text/csv;charset=utf-8' });
+};
+
+/**
+ * Decodes an uploaded text file. Honors UTF-8 and UTF-16 byte order marks, otherwise
+ * tries strict UTF-8 and falls back to Windows-874 (TIS-620), which older Thai Excel exports use.
+ */
+export const decodeTextFile = (buffer: ArrayBuffer): string => {
+  const bytes = new Uint8Array(buffer);
+  let text: string;
+
+  if (bytes[0] === 0xff && bytes[1] === 0xfe) {
+    text = new TextDecoder('utf-16le').decode(bytes);
+  } else if (bytes[0] === 0xfe && bytes[1] === 0xff) {
+    text = new TextDecoder('utf-16be').decode(bytes);
+  } else {
+    try {
+      text = new TextDecoder('utf-8', { fatal: true }).decode(bytes);
+    } catch {
+      text = new TextDecoder('windows-874').decode(bytes);
+    }
+  }
+
+  // TextDecoder drops a UTF-8 BOM itself; NFC so imported Thai compares equal to typed Thai
+  return text.replace(/^\uFEFF/, '').normalize('NFC');
+};
+
+/**
+ * Whether an unrecognized first CSV row is still a header: several distinct, non-empty,
+ * non-numeric cells, as spreadsheet exports have. A single column can't be told apart
+ * from an answer, so it counts as data.
+ */
+const looksLikeHeader = (row: string[]): boolean => {
+  const cells = row.map(cell => cell.trim());
+  return cells.length > 1 &&
+    cells.every(cell => cell !== '' && !/^[\d.,\s-]+$/.test(cell)) &&
+    new Set(cells).size === cells.length;
+};
+
+/**
+ * Answers from an imported file. CSV files use the column with a recognized header
+ * (see TEXT_COLUMNS), or the first column when there is none, skipping a first row that
+ * looks like a header; other files use one answer per line.
+ */
+export const parseImportedAnswers = (text: string, fileName: string): string[] => {
+  let answers: string[];
+
+  if (/\.csv$/i.test(fileName)) {
+    const rows = parseCsv(text);
+    const header = (rows[0] ?? []).map(cell => cell.trim().toLowerCase());
+    const column = header.findIndex(cell => TEXT_COLUMNS.includes(cell));
+    answers = column >= 0
+      ? rows.slice(1).map(row => row[column] ?? '')
+      : rows.slice(rows[0] && looksLikeHeader(rows[0]) ? 1 : 0).map(row => row[0] ?? '');
+  } else {
+    answers = text.split(/\r\n|\r|\n/);
+  }
+
+  return answers.map(answer => answer.trim()).filter(Boolean);
+};
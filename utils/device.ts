@@ -0,0 +1,25 @@
+import { createClientId } from './entries';
+
+const DEVICE_ID_KEY = 'wordcloud.device';
+
+let sessionDeviceId: string | null = null;
+
+/**
+ * Random ID for this browser, kept in localStorage so it survives reloads.
+ * It identifies a device, not a person. It is sent with entries but nothing checks it yet:
+ * the submission limits are kept by the browser (see utils/submissions).
+ */
+export const getDeviceId = (): string => {
+  try {
+    const saved = localStorage.getItem(DEVICE_ID_KEY);
+    if (saved) return saved;
+    // createClientId also works over plain http, where crypto.randomUUID is missing
+    const id = createClientId();
+    localStorage.setItem(DEVICE_ID_KEY, id);
+    return id;
+  } catch {
+    // Storage blocked (e.g. private mode in an embedded browser): one ID per page load
+    if (!sessionDeviceId) sessionDeviceId = createClientId();
+    return sessionDeviceId;
+  }
+};
@@ -0,0 +1,44 @@
+import { EntryEvent, WordCloudEntry } from '../types';
+
+const isSameEntry = (a: WordCloudEntry, b: WordCloudEntry): boolean =>
+  (a.id !== undefined && a.id === b.id) || (!!a.client_id && a.client_id === b.client_id);
+
+/**
+ * Adds a new entry to the start of the list, or replaces the existing one with the same id
+ * (stores re-announce entries when their status changes). Entries also match by client_id,
+ * so the server's copy replaces an entry this tab announced before the server gave it an id.
+ */
+export const upsertEntry = (entries: WordCloudEntry[], entry: WordCloudEntry): WordCloudEntry[] => {
+  if (entries.some(e => isSameEntry(e, entry))) {
+    return entries.map(e => isSameEntry(e, entry) ? entry : e);
+  }
+  return [entry, ...entries];
+};
+
+/**
+ * Applies a change announced by a store subscription to a list of entries.
+ */
+export const applyEntryEvent = (entries: WordCloudEntry[], entry: WordCloudEntry, event: EntryEvent): WordCloudEntry[] => {
+  if (event === 'delete') return entries.filter(e => !isSameEntry(e, entry));
+  return upsertEntry(entries, entry);
+};
+
+let lastEntryId = 0;
+
+/**
+ * Timestamp-based entry ID for stores that assign their own. Never repeats within a page,
+ * even when several entries are saved in the same millisecond (e.g. an import).
+ */
+export const createEntryId = (): number => {
+  lastEntryId = Math.max(Date.now(), lastEntryId + 1);
+  return lastEntryId;
+};
+
+/**
+ * Random ID a device gives an entry before sending it, so retries can be recognized.
+ */
+export const createClientId = (): string => {
+  if (typeof crypto !== 'undefined' && crypto.randomUUID) return crypto.randomUUID();
+  // randomUUID needs a secure context; venue setups sometimes serve over plain http
+  return `${Date.now().toString(36)}-${Math.random().toString(36).slice(2)}${Math.random().toString(36).slice(2)}`;
+};
@@ -0,0 +1,105 @@
+import { FONT_STYLESHEET_URL } from '../constants';
+import { GenerationOptions, GenerationResult } from '../types';
+import { generateWordCloudBlob, generateWordCloudLayout } from './wordCloudGenerator';
+
+// 'png' renders the cloud; 'layout' only returns the placed words
+export type GenerationOutput = 'png' | 'layout';
+
+export type GenerationRequest =
+  | { type: 'generate'; jobId: number; output: GenerationOutput; entries: string[]; options: GenerationOptions }
+  | { type: 'cancel'; jobId: number };
+
+export type GenerationMessage =
+  | { type: 'started'; jobId: number }
+  | { type: 'progress'; jobId: number; done: number; total: number }
+  | { type: 'result'; jobId: number; result: GenerationResult };
+
+// The parts of DedicatedWorkerGlobalScope used here (the project only loads the DOM typings)
+interface WorkerScope {
+  fonts: FontFaceSet;
+  postMessage: (message: GenerationMessage) => void;
+  onmessage: ((event: MessageEvent<GenerationRequest>) => void) | null;
+}
+
+const scope = self as unknown as WorkerScope;
+
+// Words are drawn bold, so only the 700 faces are needed
+const RENDER_WEIGHT = '700';
+// A venue network without internet must not hold up every cloud waiting for fonts
+const FONT_TIMEOUT_MS = 5000;
+
+/**
+ * Registers the bold @font-face rules from the font stylesheet with the worker.
+ * If this fails or takes longer than FONT_TIMEOUT_MS, the cloud renders in the fallback
+ * fonts of the stack instead.
+ */
+const loadFonts = async () => {
+  const controller = new AbortController();
+  const timer = setTimeout(() => controller.abort(), FONT_TIMEOUT_MS);
+  const faces: FontFace[] = [];
+  try {
+    // A worker restarted to stop a stale layout reads the stylesheet and fonts from the HTTP cache
+    const response = await fetch(FONT_STYLESHEET_URL, { signal: controller.signal, cache: 'force-cache' });
+    const css = await response.text();
+
+    for (const [, rule] of css.matchAll(/@font-face\s*{([^}]*)}/g)) {
+      const family = rule.match(/font-family:\s*'([^']+)'/)?.[1];
+      const weight = rule.match(/font-weight:\s*(\d+)/)?.[1];
+      const url = rule.match(/src:\s*url\(([^)]+)\)/)?.[1];
+      const unicodeRange = rule.match(/unicode-range:\s*([^;]+);/)?.[1];
+      if (!family || !url || weight !== RENDER_WEIGHT) continue;
+
+      const face = new FontFace(family, `url(${url})`, { weight, unicodeRange });
+      scope.fonts.add(face);
+      faces.push(face);
+    }
+
+    const timedOut = new Promise<void>((_, reject) => {
+      controller.signal.addEventListener('abort', () => reject(new Error('Timed out')), { once: true });
+    });
+    await Promise.race([Promise.all(faces.map(face => face.load())), timedOut]);
+  } catch (error) {
+    console.error('Error loading worker fonts:', error);
+    // Drop faces still loading, so a font arriving later can't change sizes between layouts
+    faces.filter(face => face.status !== 'loaded').forEach(face => scope.fonts.delete(face));
+  } finally {
+    clearTimeout(timer);
+  }
+};
+
+const fontsReady = loadFonts();
+
+// Jobs waiting for fonts; a cancel skips one without restarting the worker
+const runningJobs = new Map<number, AbortController>();
+
+scope.onmessage = async (event) => {
+  const request = event.data;
+  if (request.type === 'cancel') {
+    runningJobs.get(request.jobId)?.abort();
+    return;
+  }
+
+  const { jobId, output, entries, options } = request;
+  const controller = new AbortController();
+  runningJobs.set(jobId, controller);
+
+  let result: GenerationResult;
+  try {
+    await fontsReady;
+    if (controller.signal.aborted) return;
+    // From here the layout blocks the worker, so only terminating it can stop the job
+    scope.postMessage({ type: 'started', jobId });
+
+    const generate = output === 'layout' ? generateWordCloudLayout : generateWordCloudBlob;
+    result = await generate(entries, options, {
+      signal: controller.signal,
+      onProgress: ({ done, total }) => scope.postMessage({ type: 'progress', jobId, done, total }),
+    });
+  } catch (error) {
+    console.error('Error generating word cloud in worker:', error);
+    result = { success: false, unplaced: [], error: error instanceof Error ? error.message : String(error) };
+  } finally {
+    runningJobs.delete(jobId);
+  }
+  scope.postMessage({ type: 'result', jobId, result });
+};
@@ -0,0 +1,68 @@
+import { describe, expect, it } from 'vitest';
+import { WordFrequency } from '../types';
+import { computeLayout, estimateTextWidth } from './layout';
+
+const toWords = (counts: Record<string, number>): WordFrequency[] =>
+  Object.entries(counts)
+    .map(([text, count]) => ({ text, count, size: 0, color: '' }))
+    .sort((a, b) => b.count - a.count);
+
+const WORDS = toWords({
+  risk: 12, governance: 9, compliance: 7, 'ความเสี่ยง': 6, audit: 5,
+  culture: 4, control: 3, 'ธรรมาภิบาล': 3, ethics: 2, trust: 1,
+});
+
+// Box mode with no rotation: the same bounds computeLayout checks collisions on, minus padding
+const boundsOf = (word: WordFrequency) => {
+  const width = estimateTextWidth(word.text, word.size);
+  const height = word.size * 1.1;
+  return { left: word.x! - width / 2, right: word.x! + width / 2, top: word.y! - height / 2, bottom: word.y! + height / 2 };
+};
+
+describe('computeLayout', () => {
+  it('gives the same layout for the same words and seed', () => {
+    const first = computeLayout(WORDS, { seed: 42, rotation: { mode: 'random' } });
+    const second = computeLayout(WORDS, { seed: 42, rotation: { mode: 'random' } });
+    expect(second).toEqual(first);
+  });
+
+  it('places words differently with another seed', () => {
+    const first = computeLayout(WORDS, { seed: 1, rotation: { mode: 'random' } });
+    const second = computeLayout(WORDS, { seed: 2, rotation: { mode: 'random' } });
+    expect(second.placed.map(word => word.rotate)).not.toEqual(first.placed.map(word => word.rotate));
+  });
+
+  it('places words without overlaps in box mode', () => {
+    const { placed, unplaced } = computeLayout(WORDS, { maxFontSize: 80 });
+    expect(unplaced).toEqual([]);
+    expect(placed).toHaveLength(WORDS.length);
+
+    placed.forEach((word, i) => {
+      placed.slice(i + 1).forEach(other => {
+        const a = boundsOf(word);
+        const b = boundsOf(other);
+        const overlaps = a.left < b.right && b.left < a.right && a.top < b.bottom && b.top < a.bottom;
+        expect(overlaps, `${word.text} overlaps ${other.text}`).toBe(false);
+      });
+    });
+  });
+
+  it('keeps words at their previous positions when new words arrive', () => {
+    const first = computeLayout(WORDS);
+    const next = computeLayout(toWords({ ...Object.fromEntries(WORDS.map(w => [w.text, w.count])), resilience: 1 }), {
+      previous: first.placed,
+    });
+
+    first.placed.forEach(word => {
+      const kept = next.placed.find(other => other.text === word.text);
+      expect(kept, word.text).toMatchObject({ x: word.x, y: word.y });
+    });
+    expect(next.placed.map(word => word.text)).toContain('resilience');
+  });
+
+  it('reports words that cannot fit the canvas as unplaced', () => {
+    const { unplaced } = computeLayout(WORDS, { width: 200, height: 100 });
+    expect(unplaced.length).toBeGreaterThan(0);
+    unplaced.forEach(word => expect(word.reason).toBe('crowded'));
+  });
+});
@@ -0,0 +1,306 @@
+import { CANVAS_CONFIG, COLORS, DEFAULT_SIZING_OPTIONS } from '../constants';
+import {
+  ColorMode, GlyphSprite, ScalingMode, LayoutOptions, LayoutResult, RotationOptions, ShapeMask, TextMeasurer, UnplacedWord, WordFrequency
+} from '../types';
+import { createRandom, Random } from './random';
+import { interpolateColor } from './color';
+import { boardBlockOutside, boardCollides, boardPlace, createBoard } from './collisionMask';
+import { Box, createSpatialGrid, gridInsert, gridQuery } from './spatialGrid';
+
+// Internal interface for collision detection with dimensions
+interface PlacedWord extends WordFrequency {
+  width: number;
+  height: number;
+  x: number;
+  y: number;
+}
+
+/**
+ * Rough width estimate for when no canvas is available (e.g. in tests).
+ * Thai vowel and tone marks stack on their consonant, so they take no width.
+ */
+export const estimateTextWidth: TextMeasurer = (text, fontSize) => {
+  const visible = Array.from(text.replace(/\p{M}/gu, '')).length;
+  return visible * fontSize * 0.6;
+};
+
+export const DEFAULT_LAYOUT_OPTIONS: LayoutOptions = {
+  width: CANVAS_CONFIG.width,
+  height: CANVAS_CONFIG.height,
+  minFontSize: DEFAULT_SIZING_OPTIONS.minFontSize,
+  maxFontSize: DEFAULT_SIZING_OPTIONS.maxFontSize,
+  scaling: DEFAULT_SIZING_OPTIONS.scaling,
+  palette: COLORS,
+  colorMode: 'random',
+  seed: 1,
+  measureText: estimateTextWidth,
+  rotation: { mode: 'none' },
+};
+
+/**
+ * Picks a word's angle in degrees for the rotation mode.
+ */
+const pickRotation = (random: Random, rotation: RotationOptions): number => {
+  if (rotation.mode === 'orthogonal') return random() < 0.5 ? 0 : 90;
+  if (rotation.mode === 'random') {
+    const min = rotation.minAngle ?? -60;
+    const max = rotation.maxAngle ?? 60;
+    return Math.round(min + random() * (max - min));
+  }
+  return 0;
+};
+
+/**
+ * Where a word falls between the smallest (0) and largest (1) font size.
+ * `rank` is the word's position by frequency, 0 first, out of `total` words.
+ */
+const sizeScale = (
+  mode: ScalingMode,
+  count: number,
+  minCount: number,
+  maxCount: number,
+  rank: number,
+  total: number
+): number => {
+  if (mode === 'rank') return total > 1 ? 1 - rank / (total - 1) : 1;
+  if (maxCount === minCount) return 1;
+
+  const curve = mode === 'sqrt' ? Math.sqrt : mode === 'log' ? Math.log : (n: number) => n;
+  return (curve(count) - curve(minCount)) / (curve(maxCount) - curve(minCount));
+};
+
+/**
+ * Picks a word's color for the color mode. `rank` is the word's position by frequency, 0 first.
+ * Always draws from `random` so rotations don't change with the color mode.
+ */
+const pickColor = (random: Random, mode: ColorMode, palette: string[], rank: number, total: number): string => {
+  const randomColor = palette[Math.floor(random() * palette.length)];
+  if (mode === 'rank') return palette[rank % palette.length];
+  if (mode === 'gradient') return interpolateColor(palette, total > 1 ? rank / (total - 1) : 0);
+  return randomColor;
+};
+
+/**
+ * Axis-aligned size of a width x height box rotated by `rotate` degrees.
+ */
+const rotatedBounds = (width: number, height: number, rotate: number) => {
+  const angle = (rotate * Math.PI) / 180;
+  const cos = Math.abs(Math.cos(angle));
+  const sin = Math.abs(Math.sin(angle));
+  return { width: width * cos + height * sin, height: width * sin + height * cos };
+};
+
+// Expand bounding box slightly (padding) for better visual separation
+const BOX_PADDING = 15; // Increased padding for big text
+// Box-mode spatial grid cell, in layout px; about the size of a mid-sized word
+const GRID_CELL_SIZE = 200;
+
+const boxOf = (word: PlacedWord, padding = 0): Box => ({
+  left: word.x - word.width / 2 - padding,
+  top: word.y - word.height / 2 - padding,
+  right: word.x + word.width / 2 + padding,
+  bottom: word.y + word.height / 2 + padding,
+});
+
+/**
+ * Checks if two words intersect based on their bounding boxes.
+ */
+const intersect = (word: PlacedWord, otherWord: PlacedWord): boolean => {
+  const padding = BOX_PADDING;
+
+  return !(word.x + word.width / 2 + padding < otherWord.x - otherWord.width / 2 - padding ||
+           word.x - word.width / 2 - padding > otherWord.x + otherWord.width / 2 + padding ||
+           word.y + word.height / 2 + padding < otherWord.y - otherWord.height / 2 - padding ||
+           word.y - word.height / 2 - padding > otherWord.y + otherWord.height / 2 + padding);
+};
+
+/**
+ * Box-mode shape test: samples a 5x3 grid over the word's bounding box.
+ */
+const insideMask = (mask: ShapeMask, word: PlacedWord): boolean => {
+  for (let i = 0; i <= 4; i++) {
+    for (let j = 0; j <= 2; j++) {
+      const x = word.x - word.width / 2 + (word.width * i) / 4;
+      const y = word.y - word.height / 2 + (word.height * j) / 2;
+      if (!mask(x, y)) return false;
+    }
+  }
+  return true;
+};
+
+/**
+ * Sizes each word by frequency (see sizeScale) and places it on a spiral from the center.
+ * Pure: no DOM access, and all randomness comes from options.seed, so the same
+ * words and options always produce the same layout. Words that never fit are returned as unplaced.
+ * With a mask, only the area inside it is used.
+ * With a rasterizer, words collide on their glyph masks and can nest into each other's gaps;
+ * without one, padded bounding boxes are used.
+ * With a previous layout, words that were already placed first try to stay where they were,
+ * then new words and words that no longer fit are spiraled into the free space.
+ * Expects words sorted by count, highest first.
+ */
+export const computeLayout = (words: WordFrequency[], options: Partial<LayoutOptions> = {}): LayoutResult => {
+  const {
+    width: canvasWidth, height: canvasHeight, minFontSize, maxFontSize, scaling,
+    palette, colorMode, seed, measureText, rotation, rasterizer, mask, previous, onProgress
+  } = {
+    ...DEFAULT_LAYOUT_OPTIONS,
+    ...options,
+  };
+
+  const boardWidth = rasterizer ? Math.ceil(canvasWidth * rasterizer.scale) : 0;
+  const boardHeight = rasterizer ? Math.ceil(canvasHeight * rasterizer.scale) : 0;
+  const board = rasterizer ? createBoard(boardWidth, boardHeight) : null;
+
+  // Pixel mode: a second board where everything outside the shape is occupied, kept
+  // apart from placed words so a miss can be blamed on the shape or on other words
+  const shapeBoard = rasterizer && mask ? createBoard(boardWidth, boardHeight) : null;
+  if (shapeBoard && rasterizer && mask) {
+    boardBlockOutside(shapeBoard, (x, y) => mask(x / rasterizer.scale, y / rasterizer.scale));
+  }
+
+  // Box mode: placed words are looked up by area instead of checking every one
+  const grid = board ? null : createSpatialGrid<PlacedWord>(canvasWidth, canvasHeight, GRID_CELL_SIZE);
+
+  // Calculation config
+  const centerX = canvasWidth / 2;
+  const centerY = canvasHeight / 2;
+
+  const maxCount = words[0]?.count || 1;
+  const minCount = words[words.length - 1]?.count || 1;
+
+  const placedWords: PlacedWord[] = [];
+  let done = 0;
+
+  const candidates = words.map((word, rank) => {
+    // Calculate font size based on frequency
+    const scale = sizeScale(scaling, word.count, minCount, maxCount, rank, words.length);
+    let size = Math.floor(minFontSize + scale * (maxFontSize - minFontSize));
+
+    // Color and angle are seeded per word, so a word keeps them when others are added
+    const random = createRandom(`${seed}:${word.text}`);
+    const color = pickColor(random, colorMode, palette, rank, words.length);
+    const rotate = pickRotation(random, rotation);
+
+    // Slightly more height than the font size for line spacing
+    let { width, height } = rotatedBounds(measureText(word.text, size), size * 1.1, rotate);
+
+    // Safety: If a long sentence is larger than the canvas, scale it down
+    // Allow up to 95% of canvas width and height
+    const fit = Math.min((canvasWidth * 0.95) / width, (canvasHeight * 0.95) / height);
+    if (fit < 1) {
+        size = Math.floor(size * fit);
+        // Re-measure with new size
+        ({ width, height } = rotatedBounds(measureText(word.text, size), size * 1.1, rotate));
+    }
+
+    const candidate: PlacedWord = {
+      ...word,
+      size,
+      color,
+      rotate,
+      width,
+      height,
+      x: centerX,
+      y: centerY
+    };
+    return { candidate, sprite: rasterizer ? rasterizer.rasterize(word.text, size, rotate) : null, placed: false };
+  });
+
+  // Tests the candidate at its current x/y and claims the spot if it is free.
+  // Otherwise says what was in the way.
+  const tryPlace = (candidate: PlacedWord, sprite: GlyphSprite | null): 'placed' | 'bounds' | 'shape' | 'collision' => {
+    const { width, height } = candidate;
+
+    // 1. Boundary Check
+    if (candidate.x - width/2 < 0 || candidate.x + width/2 > canvasWidth ||
+        candidate.y - height/2 < 0 || candidate.y + height/2 > canvasHeight) {
+      return 'bounds';
+    }
+
+    // 2. Shape and Word Collision Check
+    if (board && sprite && rasterizer) {
+      const spriteLeft = Math.round(candidate.x * rasterizer.scale - sprite.width / 2);
+      const spriteTop = Math.round(candidate.y * rasterizer.scale - sprite.height / 2);
+      if (shapeBoard && boardCollides(shapeBoard, sprite, spriteLeft, spriteTop)) return 'shape';
+      if (boardCollides(board, sprite, spriteLeft, spriteTop)) return 'collision';
+      boardPlace(board, sprite, spriteLeft, spriteTop);
+    } else if (grid) {
+      if (mask && !insideMask(mask, candidate)) return 'shape';
+      const nearby = gridQuery(grid, boxOf(candidate, BOX_PADDING * 2));
+      if (nearby.some(other => intersect(candidate, other))) return 'collision';
+    }
+
+    const placedWord = { ...candidate };
+    if (grid) gridInsert(grid, boxOf(placedWord), placedWord);
+    placedWords.push(placedWord);
+    return 'placed';
+  };
+
+  // Keep previously placed words where they were, biggest first
+  if (previous) {
+    const previousPositions = new Map(
+      previous
+        .filter(word => word.x !== undefined && word.y !== undefined)
+        .map(word => [word.text, { x: word.x!, y: word.y! }])
+    );
+
+    candidates.forEach((entry) => {
+      const position = previousPositions.get(entry.candidate.text);
+      if (!position) return;
+
+      entry.candidate.x = position.x;
+      entry.candidate.y = position.y;
+      entry.placed = tryPlace(entry.candidate, entry.sprite) === 'placed';
+      if (entry.placed) onProgress?.(++done, words.length);
+    });
+  }
+
+  const unplaced: UnplacedWord[] = [];
+
+  candidates.forEach((entry) => {
+    if (entry.placed) return;
+    const { candidate, sprite } = entry;
+
+    // Spiral placement algorithm
+    let angle = 0;
+    let radius = 0;
+    // Glyph-mask checks are cheap, so pixel mode walks a much tighter spiral
+    // (about 40px between turns) out to the canvas corners
+    const angleStep = board ? 0.1 : 0.5;
+    const radiusStep = board ? 0.6 : 20; // Larger step for larger fonts
+
+    const maxIterations = board ? Math.ceil(Math.hypot(centerX, centerY) / radiusStep) : 3000;
+    let iterations = 0;
+    // Whether any spot had room inside the canvas and shape, ignoring other words
+    let hadRoom = false;
+
+    // Stop once the spiral has left the canvas
+    while (iterations < maxIterations && radius <= Math.max(canvasWidth, canvasHeight)) {
+      candidate.x = centerX + (radius * Math.cos(angle));
+      candidate.y = centerY + (radius * Math.sin(angle));
+
+      const outcome = tryPlace(candidate, sprite);
+      if (outcome === 'placed') {
+        entry.placed = true;
+        break;
+      }
+      if (outcome === 'collision') hadRoom = true;
+
+      angle += angleStep;
+      radius += radiusStep;
+      iterations++;
+    }
+
+    if (!entry.placed) {
+      const { width, height, x, y, ...word } = candidate;
+      unplaced.push({ ...word, reason: hadRoom ? 'crowded' : 'shape' });
+    }
+    onProgress?.(++done, words.length);
+  });
+
+  return {
+    placed: placedWords.map(({ width, height, ...word }) => word),
+    unplaced,
+  };
+};
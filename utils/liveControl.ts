@@ -0,0 +1,57 @@
+import { DEFAULT_LIVE_CONTROL } from '../constants';
+import { DisplaySettings, LiveCommand, LiveControlState, WordCloudEntry } from '../types';
+
+export const liveControlKey = (sessionId: string) => `live:${sessionId}`;
+
+/**
+ * State after a presenter command. Pure, so the admin page and every live display
+ * reach the same state from the same commands.
+ */
+export const applyLiveCommand = (state: LiveControlState, command: LiveCommand): LiveControlState => {
+  switch (command.type) {
+    case 'pause':
+      return { ...state, paused: true };
+    case 'resume':
+      return { ...state, paused: false };
+    case 'clear':
+      return { ...state, clearedAt: command.at };
+    case 'restore':
+      return { ...state, clearedAt: null };
+    case 'counter':
+      return { ...state, showCounter: command.visible };
+    case 'question':
+      return { ...state, activeQuestion: command.question };
+    case 'display':
+      return { ...state, display: { ...state.display, ...command.settings } };
+    case 'sync':
+      // Saved states may predate newer fields
+      return { ...DEFAULT_LIVE_CONTROL, ...command.state };
+  }
+};
+
+/**
+ * Display fields the presenter changed between two synced states. Syncs resend the whole
+ * state for any command, so applying only these keeps changes made on the projector itself.
+ */
+export const changedDisplaySettings = (
+  previous: Partial<DisplaySettings> | null,
+  next: Partial<DisplaySettings>
+): Partial<DisplaySettings> => {
+  if (!previous) return next;
+  const changed: Partial<DisplaySettings> = {};
+  for (const key of Object.keys(next) as (keyof DisplaySettings)[]) {
+    if (JSON.stringify(previous[key]) !== JSON.stringify(next[key])) {
+      (changed as Record<string, unknown>)[key] = next[key];
+    }
+  }
+  return changed;
+};
+
+/**
+ * Whether an entry is still on the board after a soft reset. Entries without a
+ * timestamp can't be placed in time, so they stay.
+ */
+export const isAfterClear = (entry: WordCloudEntry, clearedAt: string | null): boolean => {
+  if (!clearedAt || !entry.created_at) return true;
+  return new Date(entry.created_at).getTime() > new Date(clearedAt).getTime();
+};
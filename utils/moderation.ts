@@ -0,0 +1,35 @@
+import { EntryStatus, ModerationSettings, WordCloudEntry } from '../types';
+import { normalizeText } from './normalize';
+
+export const moderationSettingsKey = (sessionId: string) => `moderation:${sessionId}`;
+
+/**
+ * Returns the blocklist terms found in a text. Matching is on normalized text and by substring,
+ * since Thai has no spaces to mark word boundaries.
+ */
+export const findBlockedTerms = (text: string, blocklist: string[]): string[] => {
+  const normalized = normalizeText(text);
+  return blocklist.filter(term => {
+    const normalizedTerm = normalizeText(term);
+    return normalizedTerm.length > 0 && normalized.includes(normalizedTerm);
+  });
+};
+
+/**
+ * Status an entry is shown with under the session's current rules. New entries arrive as
+ * 'pending' and only a moderator sets 'approved' or 'hidden', so the mode and blocklist apply
+ * to every unreviewed entry, including ones sent before the rules changed: in post-moderation
+ * they show unless they contain a blocklist term, in pre-moderation they wait.
+ */
+export const displayStatus = (entry: WordCloudEntry, settings: ModerationSettings): EntryStatus => {
+  if (entry.status !== 'pending') return entry.status || 'approved';
+  if (settings.mode === 'pre') return 'pending';
+  return findBlockedTerms(entry.input_text, settings.blocklist).length > 0 ? 'pending' : 'approved';
+};
+
+/**
+ * Whether an entry may be shown on the live display.
+ */
+export const isApproved = (entry: WordCloudEntry, settings: ModerationSettings): boolean => {
+  return displayStatus(entry, settings) === 'approved';
+};
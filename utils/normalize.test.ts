@@ -0,0 +1,41 @@
+import { describe, expect, it } from 'vitest';
+import { countPhrases, normalizeText } from './normalize';
+
+describe('normalizeText', () => {
+  it('folds case and drops punctuation', () => {
+    expect(normalizeText('  Risk!! ')).toBe('risk');
+    expect(normalizeText('risk-based   audit')).toBe('risk based audit');
+  });
+
+  it('removes zero-width characters', () => {
+    expect(normalizeText('ความ​เสี่ยง')).toBe('ความเสี่ยง');
+  });
+
+  it('collapses Thai emphasis and trailing marks', () => {
+    expect(normalizeText('ดีมากกกก')).toBe('ดีมาก');
+    expect(normalizeText('ดีๆ')).toBe('ดี');
+  });
+});
+
+describe('countPhrases', () => {
+  it('counts tokens by normalized form under the most common surface form', () => {
+    expect(countPhrases(['risk', 'Risk', 'risk!', 'risk', 'audit'])).toEqual([
+      { text: 'risk', count: 4 },
+      { text: 'audit', count: 1 },
+    ]);
+  });
+
+  it('keeps exact tokens apart when normalization is off', () => {
+    expect(countPhrases(['risk', 'Risk'], { enabled: false })).toEqual([
+      { text: 'risk', count: 1 },
+      { text: 'Risk', count: 1 },
+    ]);
+  });
+
+  it('merges near spellings only with fuzzy merging', () => {
+    expect(countPhrases(['governance', 'governence'])).toHaveLength(2);
+    expect(countPhrases(['governance', 'governance', 'governence'], { fuzzyMerge: true })).toEqual([
+      { text: 'governance', count: 3 },
+    ]);
+  });
+});
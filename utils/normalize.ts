@@ -0,0 +1,137 @@
+import { NormalizeOptions } from '../types';
+
+export const DEFAULT_NORMALIZE_OPTIONS: Required<NormalizeOptions> = {
+  enabled: true,
+  fuzzyMerge: false,
+  similarity: 0.8,
+};
+
+// Zero-width space/joiners, word joiner and BOM that sneak in from copy-paste and mobile keyboards
+const ZERO_WIDTH = /[\u200B-\u200D\u2060\uFEFF]/g;
+// Thai repetition mark (ๆ) and abbreviation mark (ฯ) typed at the end of an answer
+const TRAILING_THAI_MARKS = /[ๆฯ\s]+$/u;
+// Emphasis like "มากกกก": Thai never repeats a consonant three times, so the run collapses to one
+const REPEATED_THAI_CONSONANT = /([ก-ฮ])\1{2,}/g;
+
+/**
+ * Cleans a phrase for display without changing its meaning:
+ * NFC, zero-width characters removed and whitespace collapsed.
+ */
+export const cleanSurfaceForm = (text: string): string => {
+  return text
+    .normalize('NFC')
+    .replace(ZERO_WIDTH, '')
+    .replace(/\s+/g, ' ')
+    .trim();
+};
+
+/**
+ * Builds the comparison key for a phrase: the surface form, case folded,
+ * with punctuation, emphasis and trailing Thai marks removed.
+ */
+export const normalizeText = (text: string): string => {
+  return cleanSurfaceForm(text)
+    .toLowerCase()
+    .replace(/[\p{P}\p{S}]+/gu, ' ')
+    .replace(REPEATED_THAI_CONSONANT, '$1')
+    .replace(TRAILING_THAI_MARKS, '')
+    .replace(/\s+/g, ' ')
+    .trim();
+};
+
+/**
+ * Levenshtein distance on code points, so Thai combining marks count as one edit each.
+ */
+export const editDistance = (a: string, b: string): number => {
+  const s = Array.from(a);
+  const t = Array.from(b);
+  if (s.length === 0) return t.length;
+  if (t.length === 0) return s.length;
+
+  let prev = Array.from({ length: t.length + 1 }, (_, i) => i);
+  for (let i = 1; i <= s.length; i++) {
+    const curr = [i];
+    for (let j = 1; j <= t.length; j++) {
+      const cost = s[i - 1] === t[j - 1] ? 0 : 1;
+      curr[j] = Math.min(prev[j] + 1, curr[j - 1] + 1, prev[j - 1] + cost);
+    }
+    prev = curr;
+  }
+  return prev[t.length];
+};
+
+interface PhraseGroup {
+  key: string;
+  total: number;
+  surfaces: Map<string, number>;
+}
+
+const mostCommonSurface = (surfaces: Map<string, number>): string => {
+  let best = '';
+  let bestCount = -1;
+  surfaces.forEach((count, surface) => {
+    if (count > bestCount) {
+      best = surface;
+      bestCount = count;
+    }
+  });
+  return best;
+};
+
+/**
+ * Greedily folds each group into the most frequent earlier group within the allowed edit distance.
+ * Short keys get no tolerance, so "risk" and "disk" stay apart at the default similarity.
+ */
+const mergeSimilarGroups = (groups: PhraseGroup[], similarity: number): PhraseGroup[] => {
+  const sorted = [...groups].sort((a, b) => b.total - a.total);
+  const clusters: PhraseGroup[] = [];
+
+  sorted.forEach(group => {
+    const length = Array.from(group.key).length;
+    const maxDistance = Math.floor(length * (1 - similarity));
+
+    const target = maxDistance > 0
+      ? clusters.find(cluster => {
+          const lengthGap = Math.abs(Array.from(cluster.key).length - length);
+          return lengthGap <= maxDistance && editDistance(cluster.key, group.key) <= maxDistance;
+        })
+      : undefined;
+
+    if (!target) {
+      clusters.push({ ...group, surfaces: new Map(group.surfaces) });
+      return;
+    }
+
+    target.total += group.total;
+    group.surfaces.forEach((count, surface) => {
+      target.surfaces.set(surface, (target.surfaces.get(surface) || 0) + count);
+    });
+  });
+
+  return clusters;
+};
+
+/**
+ * Counts tokens by normalized key and labels each group with its most common surface form.
+ */
+export const countPhrases = (tokens: string[], options?: NormalizeOptions): { text: string; count: number }[] => {
+  const resolved = { ...DEFAULT_NORMALIZE_OPTIONS, ...options };
+  const groups = new Map<string, PhraseGroup>();
+
+  tokens.forEach(token => {
+    const surface = resolved.enabled ? cleanSurfaceForm(token) : token;
+    const key = resolved.enabled ? normalizeText(token) : token;
+    if (!key) return;
+
+    const group = groups.get(key) || { key, total: 0, surfaces: new Map<string, number>() };
+    group.total += 1;
+    group.surfaces.set(surface, (group.surfaces.get(surface) || 0) + 1);
+    groups.set(key, group);
+  });
+
+  const merged = resolved.fuzzyMerge
+    ? mergeSimilarGroups(Array.from(groups.values()), resolved.similarity)
+    : Array.from(groups.values());
+
+  return merged.map(group => ({ text: mostCommonSurface(group.surfaces), count: group.total }));
+};
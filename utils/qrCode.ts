@@ -0,0 +1,366 @@
+// QR Code Model 2 encoder (ISO/IEC 18004), byte mode only. Kept in the project so
+// the join QR works on venue networks without internet access.
+
+export type QrErrorCorrection = 'L' | 'M' | 'Q' | 'H';
+
+// Dark modules, [row][column], without the quiet zone
+export type QrMatrix = boolean[][];
+
+const FORMAT_BITS: Record<QrErrorCorrection, number> = { L: 1, M: 0, Q: 3, H: 2 };
+
+// Per version 1-40 (index 0 unused), from the standard's error correction tables
+const ECC_CODEWORDS_PER_BLOCK: Record<QrErrorCorrection, number[]> = {
+  L: [-1, 7, 10, 15, 20, 26, 18, 20, 24, 30, 18, 20, 24, 26, 30, 22, 24, 28, 30, 28, 28, 28, 28, 30, 30, 26, 28, 30, 30, 30, 30, 30, 30, 30, 30, 30, 30, 30, 30, 30, 30],
+  M: [-1, 10, 16, 26, 18, 24, 16, 18, 22, 22, 26, 30, 22, 22, 24, 24, 28, 28, 26, 26, 26, 26, 28, 28, 28, 28, 28, 28, 28, 28, 28, 28, 28, 28, 28, 28, 28, 28, 28, 28, 28],
+  Q: [-1, 13, 22, 18, 26, 18, 24, 18, 22, 20, 24, 28, 26, 24, 20, 30, 24, 28, 28, 26, 30, 28, 30, 30, 30, 30, 28, 30, 30, 30, 30, 30, 30, 30, 30, 30, 30, 30, 30, 30, 30],
+  H: [-1, 17, 28, 22, 16, 22, 28, 26, 26, 24, 28, 24, 28, 22, 24, 24, 30, 28, 28, 26, 28, 30, 24, 30, 30, 30, 30, 30, 30, 30, 30, 30, 30, 30, 30, 30, 30, 30, 30, 30, 30],
+};
+
+const ERROR_CORRECTION_BLOCKS: Record<QrErrorCorrection, number[]> = {
+  L: [-1, 1, 1, 1, 1, 1, 2, 2, 2, 2, 4, 4, 4, 4, 4, 6, 6, 6, 6, 7, 8, 8, 9, 9, 10, 12, 12, 12, 13, 14, 15, 16, 17, 18, 19, 19, 20, 21, 22, 24, 25],
+  M: [-1, 1, 1, 1, 2, 2, 4, 4, 4, 5, 5, 5, 8, 9, 9, 10, 10, 11, 13, 14, 16, 17, 17, 18, 20, 21, 23, 25, 26, 28, 29, 31, 33, 35, 37, 38, 40, 43, 45, 47, 49],
+  Q: [-1, 1, 1, 2, 2, 4, 4, 6, 6, 8, 8, 8, 10, 12, 16, 12, 17, 16, 18, 21, 20, 23, 23, 25, 27, 29, 34, 34, 35, 38, 40, 43, 45, 48, 51, 53, 56, 59, 62, 65, 68],
+  H: [-1, 1, 1, 2, 4, 4, 4, 5, 6, 8, 8, 11, 11, 16, 16, 18, 16, 19, 21, 25, 25, 25, 34, 30, 32, 35, 37, 40, 42, 45, 48, 51, 54, 57, 60, 63, 66, 70, 74, 77, 81],
+};
+
+// --- Reed-Solomon over GF(2^8) with the QR polynomial 0x11D ---
+
+const gfMultiply = (x: number, y: number): number => {
+  let z = 0;
+  for (let i = 7; i >= 0; i--) {
+    z = (z << 1) ^ ((z >>> 7) * 0x11d);
+    z ^= ((y >>> i) & 1) * x;
+  }
+  return z;
+};
+
+const rsDivisor = (degree: number): number[] => {
+  const result = new Array(degree).fill(0);
+  result[degree - 1] = 1;
+  let root = 1;
+  for (let i = 0; i < degree; i++) {
+    for (let j = 0; j < result.length; j++) {
+      result[j] = gfMultiply(result[j], root);
+      if (j + 1 < result.length) result[j] ^= result[j + 1];
+    }
+    root = gfMultiply(root, 0x02);
+  }
+  return result;
+};
+
+/**
+ * Error correction codewords for one block of data codewords.
+ */
+export const rsRemainder = (data: number[], degree: number): number[] => {
+  const divisor = rsDivisor(degree);
+  const result = new Array(degree).fill(0);
+  data.forEach(byte => {
+    const factor = byte ^ (result.shift() as number);
+    result.push(0);
+    divisor.forEach((coefficient, i) => {
+      result[i] ^= gfMultiply(coefficient, factor);
+    });
+  });
+  return result;
+};
+
+// --- Capacity ---
+
+const sizeOf = (version: number) => version * 4 + 17;
+
+// Modules left for data and error correction once the function patterns are drawn
+const rawDataModules = (version: number): number => {
+  let result = (16 * version + 128) * version + 64;
+  if (version >= 2) {
+    const alignments = Math.floor(version / 7) + 2;
+    result -= (25 * alignments - 10) * alignments - 55;
+    if (version >= 7) result -= 36;
+  }
+  return result;
+};
+
+const dataCodewords = (version: number, ecl: QrErrorCorrection): number => {
+  return Math.floor(rawDataModules(version) / 8) - ECC_CODEWORDS_PER_BLOCK[ecl][version] * ERROR_CORRECTION_BLOCKS[ecl][version];
+};
+
+const alignmentPositions = (version: number): number[] => {
+  if (version === 1) return [];
+  const count = Math.floor(version / 7) + 2;
+  const step = version === 32 ? 26 : Math.ceil((version * 4 + 4) / (count * 2 - 2)) * 2;
+  const result = [6];
+  for (let position = sizeOf(version) - 7; result.length < count; position -= step) {
+    result.splice(1, 0, position);
+  }
+  return result;
+};
+
+// --- Codewords ---
+
+const encodeData = (bytes: Uint8Array, version: number, ecl: QrErrorCorrection): number[] => {
+  const bits: number[] = [];
+  const append = (value: number, length: number) => {
+    for (let i = length - 1; i >= 0; i--) bits.push((value >>> i) & 1);
+  };
+
+  append(0b0100, 4); // byte mode
+  append(bytes.length, version <= 9 ? 8 : 16);
+  bytes.forEach(byte => append(byte, 8));
+
+  // Terminator, byte alignment, then alternating pad bytes
+  const capacity = dataCodewords(version, ecl) * 8;
+  append(0, Math.min(4, capacity - bits.length));
+  append(0, (8 - (bits.length % 8)) % 8);
+  for (let pad = 0xec; bits.length < capacity; pad ^= 0xec ^ 0x11) append(pad, 8);
+
+  const codewords: number[] = [];
+  for (let i = 0; i < bits.length; i += 8) {
+    codewords.push(bits.slice(i, i + 8).reduce((byte, bit) => (byte << 1) | bit, 0));
+  }
+  return codewords;
+};
+
+// Splits data into blocks, adds each block's error correction and interleaves them
+const addErrorCorrection = (data: number[], version: number, ecl: QrErrorCorrection): number[] => {
+  const blockCount = ERROR_CORRECTION_BLOCKS[ecl][version];
+  const eccLength = ECC_CODEWORDS_PER_BLOCK[ecl][version];
+  const rawCodewords = Math.floor(rawDataModules(version) / 8);
+  const shortBlocks = blockCount - (rawCodewords % blockCount);
+  const shortBlockLength = Math.floor(rawCodewords / blockCount);
+
+  const blocks: number[][] = [];
+  for (let i = 0, offset = 0; i < blockCount; i++) {
+    const block = data.slice(offset, offset + shortBlockLength - eccLength + (i < shortBlocks ? 0 : 1));
+    offset += block.length;
+    const ecc = rsRemainder(block, eccLength);
+    // Placeholder so short and long blocks line up; skipped when interleaving
+    if (i < shortBlocks) block.push(0);
+    blocks.push([...block, ...ecc]);
+  }
+
+  const result: number[] = [];
+  for (let i = 0; i < blocks[0].length; i++) {
+    blocks.forEach((block, j) => {
+      if (i !== shortBlockLength - eccLength || j >= shortBlocks) result.push(block[i]);
+    });
+  }
+  return result;
+};
+
+// --- Matrix ---
+
+interface Grid {
+  size: number;
+  modules: QrMatrix;
+  // Finder, timing, alignment, format and version modules; data and masks skip them
+  reserved: boolean[][];
+}
+
+const createGrid = (size: number): Grid => ({
+  size,
+  modules: Array.from({ length: size }, () => new Array(size).fill(false)),
+  reserved: Array.from({ length: size }, () => new Array(size).fill(false)),
+});
+
+const setFunction = (grid: Grid, x: number, y: number, dark: boolean) => {
+  grid.modules[y][x] = dark;
+  grid.reserved[y][x] = true;
+};
+
+const drawFormatBits = (grid: Grid, ecl: QrErrorCorrection, mask: number) => {
+  const data = (FORMAT_BITS[ecl] << 3) | mask;
+  let remainder = data;
+  for (let i = 0; i < 10; i++) remainder = (remainder << 1) ^ ((remainder >>> 9) * 0x537);
+  const bits = ((data << 10) | remainder) ^ 0x5412;
+  const bit = (i: number) => ((bits >>> i) & 1) !== 0;
+  const { size } = grid;
+
+  // Around the top-left finder
+  for (let i = 0; i <= 5; i++) setFunction(grid, 8, i, bit(i));
+  setFunction(grid, 8, 7, bit(6));
+  setFunction(grid, 8, 8, bit(7));
+  setFunction(grid, 7, 8, bit(8));
+  for (let i = 9; i < 15; i++) setFunction(grid, 14 - i, 8, bit(i));
+
+  // Split between the other two finders
+  for (let i = 0; i < 8; i++) setFunction(grid, size - 1 - i, 8, bit(i));
+  for (let i = 8; i < 15; i++) setFunction(grid, 8, size - 15 + i, bit(i));
+  setFunction(grid, 8, size - 8, true); // Always dark
+};
+
+const drawVersionBits = (grid: Grid, version: number) => {
+  if (version < 7) return;
+  let remainder = version;
+  for (let i = 0; i < 12; i++) remainder = (remainder << 1) ^ ((remainder >>> 11) * 0x1f25);
+  const bits = (version << 12) | remainder;
+
+  for (let i = 0; i < 18; i++) {
+    const dark = ((bits >>> i) & 1) !== 0;
+    const a = grid.size - 11 + (i % 3);
+    const b = Math.floor(i / 3);
+    setFunction(grid, a, b, dark);
+    setFunction(grid, b, a, dark);
+  }
+};
+
+const drawFunctionPatterns = (grid: Grid, version: number, ecl: QrErrorCorrection) => {
+  const { size } = grid;
+
+  for (let i = 0; i < size; i++) {
+    setFunction(grid, 6, i, i % 2 === 0);
+    setFunction(grid, i, 6, i % 2 === 0);
+  }
+
+  // Finders with their light separators
+  [[3, 3], [size - 4, 3], [3, size - 4]].forEach(([cx, cy]) => {
+    for (let dy = -4; dy <= 4; dy++) {
+      for (let dx = -4; dx <= 4; dx++) {
+        const x = cx + dx;
+        const y = cy + dy;
+        if (x < 0 || y < 0 || x >= size || y >= size) continue;
+        const distance = Math.max(Math.abs(dx), Math.abs(dy));
+        setFunction(grid, x, y, distance !== 2 && distance !== 4);
+      }
+    }
+  });
+
+  const positions = alignmentPositions(version);
+  const last = positions.length - 1;
+  positions.forEach((cx, i) => {
+    positions.forEach((cy, j) => {
+      // The three corners already hold finders
+      if ((i === 0 && j === 0) || (i === 0 && j === last) || (i === last && j === 0)) return;
+      for (let dy = -2; dy <= 2; dy++) {
+        for (let dx = -2; dx <= 2; dx++) {
+          setFunction(grid, cx + dx, cy + dy, Math.max(Math.abs(dx), Math.abs(dy)) !== 1);
+        }
+      }
+    });
+  });
+
+  // Reserve the format area now; the real bits are drawn once the mask is chosen
+  drawFormatBits(grid, ecl, 0);
+  drawVersionBits(grid, version);
+};
+
+// Data fills two-module columns in a zigzag from the bottom right, skipping the timing column
+const drawCodewords = (grid: Grid, codewords: number[]) => {
+  const { size } = grid;
+  let i = 0;
+  for (let right = size - 1; right >= 1; right -= 2) {
+    if (right === 6) right = 5;
+    const upward = ((right + 1) & 2) === 0;
+    for (let step = 0; step < size; step++) {
+      const y = upward ? size - 1 - step : step;
+      for (let j = 0; j < 2; j++) {
+        const x = right - j;
+        if (grid.reserved[y][x] || i >= codewords.length * 8) continue;
+        grid.modules[y][x] = ((codewords[i >>> 3] >>> (7 - (i & 7))) & 1) !== 0;
+        i++;
+      }
+    }
+  }
+};
+
+const MASKS: ((x: number, y: number) => boolean)[] = [
+  (x, y) => (x + y) % 2 === 0,
+  (x, y) => y % 2 === 0,
+  (x) => x % 3 === 0,
+  (x, y) => (x + y) % 3 === 0,
+  (x, y) => (Math.floor(x / 3) + Math.floor(y / 2)) % 2 === 0,
+  (x, y) => ((x * y) % 2) + ((x * y) % 3) === 0,
+  (x, y) => (((x * y) % 2) + ((x * y) % 3)) % 2 === 0,
+  (x, y) => (((x + y) % 2) + ((x * y) % 3)) % 2 === 0,
+];
+
+// XOR, so applying the same mask twice undoes it
+const applyMask = (grid: Grid, mask: number) => {
+  for (let y = 0; y < grid.size; y++) {
+    for (let x = 0; x < grid.size; x++) {
+      if (!grid.reserved[y][x] && MASKS[mask](x, y)) grid.modules[y][x] = !grid.modules[y][x];
+    }
+  }
+};
+
+const FINDER_LIKE = [true, false, true, true, true, false, true];
+
+/**
+ * The standard's four penalty rules; the mask with the lowest score is used.
+ */
+const penaltyScore = (modules: QrMatrix): number => {
+  const size = modules.length;
+  let score = 0;
+  const lines = [
+    ...modules,
+    ...modules.map((_, x) => modules.map(row => row[x])),
+  ];
+
+  lines.forEach(line => {
+    // Rule 1: runs of five or more modules of one color
+    let run = 1;
+    for (let i = 1; i <= size; i++) {
+      if (i < size && line[i] === line[i - 1]) {
+        run++;
+      } else {
+        if (run >= 5) score += run - 2;
+        run = 1;
+      }
+    }
+
+    // Rule 3: 1:1:3:1:1 finder lookalikes with four light modules on one side
+    for (let i = 0; i + 7 <= size; i++) {
+      if (!FINDER_LIKE.every((dark, k) => line[i + k] === dark)) continue;
+      const lightBefore = i >= 4 && line.slice(i - 4, i).every(dark => !dark);
+      const lightAfter = i + 11 <= size && line.slice(i + 7, i + 11).every(dark => !dark);
+      if (lightBefore || lightAfter) score += 40;
+    }
+  });
+
+  // Rule 2: 2x2 blocks of one color
+  for (let y = 0; y < size - 1; y++) {
+    for (let x = 0; x < size - 1; x++) {
+      const color = modules[y][x];
+      if (color === modules[y][x + 1] && color === modules[y + 1][x] && color === modules[y + 1][x + 1]) score += 3;
+    }
+  }
+
+  // Rule 4: dark share away from 50%
+  const dark = modules.reduce((sum, row) => sum + row.filter(Boolean).length, 0);
+  const total = size * size;
+  score += (Math.ceil(Math.abs(dark * 20 - total * 10) / total) - 1) * 10;
+
+  return score;
+};
+
+/**
+ * Encodes text (as UTF-8 bytes) into the smallest QR code that holds it at the given
+ * error correction level. Throws if the text is too long for version 40.
+ */
+export const encodeQr = (text: string, ecl: QrErrorCorrection = 'M'): QrMatrix => {
+  const bytes = new TextEncoder().encode(text);
+
+  let version = 1;
+  const neededBits = (v: number) => 4 + (v <= 9 ? 8 : 16) + bytes.length * 8;
+  while (version <= 40 && neededBits(version) > dataCodewords(version, ecl) * 8) version++;
+  if (version > 40) throw new Error('Text is too long for a QR code');
+
+  const grid = createGrid(sizeOf(version));
+  drawFunctionPatterns(grid, version, ecl);
+  drawCodewords(grid, addErrorCorrection(encodeData(bytes, version, ecl), version, ecl));
+
+  let bestMask = 0;
+  let bestScore = Infinity;
+  for (let mask = 0; mask < MASKS.length; mask++) {
+    applyMask(grid, mask);
+    drawFormatBits(grid, ecl, mask);
+    const score = penaltyScore(grid.modules);
+    if (score < bestScore) {
+      bestMask = mask;
+      bestScore = score;
+    }
+    applyMask(grid, mask);
+  }
+
+  applyMask(grid, bestMask);
+  drawFormatBits(grid, ecl, bestMask);
+  return grid.modules;
+};
@@ -0,0 +1,18 @@
+import { Question, WordCloudEntry } from '../types';
+import { createSessionId } from './sessions';
+
+export const questionsKey = (sessionId: string) => `questions:${sessionId}`;
+
+export const buildQuestion = (text: string, maxAnswers: number | null): Question => ({
+  // Same short random IDs as sessions; they only need to be unique within one session
+  id: createSessionId(),
+  text: text.trim(),
+  maxAnswers: maxAnswers && maxAnswers > 0 ? Math.floor(maxAnswers) : null,
+});
+
+/**
+ * Checks whether an entry answers a question. A null question ID matches every entry.
+ */
+export const matchesQuestion = (entry: WordCloudEntry, questionId: string | null): boolean => {
+  return !questionId || entry.question_id === questionId;
+};
@@ -0,0 +1,27 @@
+export type Random = () => number;
+
+/**
+ * 32-bit FNV-1a hash, used to turn string seeds into numbers.
+ */
+export const hashString = (text: string): number => {
+  let hash = 0x811c9dc5;
+  for (let i = 0; i < text.length; i++) {
+    hash ^= text.charCodeAt(i);
+    hash = Math.imul(hash, 0x01000193);
+  }
+  return hash >>> 0;
+};
+
+/**
+ * Seeded PRNG (mulberry32). The same seed always yields the same sequence in [0, 1).
+ */
+export const createRandom = (seed: number | string): Random => {
+  let state = typeof seed === 'string' ? hashString(seed) : seed >>> 0;
+  return () => {
+    state = (state + 0x6d2b79f5) >>> 0;
+    let t = state;
+    t = Math.imul(t ^ (t >>> 15), t | 1);
+    t ^= t + Math.imul(t ^ (t >>> 7), t | 61);
+    return ((t ^ (t >>> 14)) >>> 0) / 4294967296;
+  };
+};
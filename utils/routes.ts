@@ -0,0 +1,49 @@
+import { DEFAULT_SESSION_ID } from '../constants';
+
+export type RoutePage = 'input' | 'live' | 'moderate' | 'admin' | 'data' | 'sessions';
+
+// Pages that exist once per session
+export type SessionPage = Exclude<RoutePage, 'sessions'>;
+
+export interface Route {
+  page: RoutePage;
+  sessionId: string;
+}
+
+const SESSION_SUBPAGES: SessionPage[] = ['live', 'moderate', 'admin', 'data'];
+
+const asSessionPage = (part: string | undefined): SessionPage => {
+  return SESSION_SUBPAGES.find(page => page === part) || 'input';
+};
+
+/**
+ * Parses the hash into a page and session.
+ * Supported: #/, #/live, #/moderate, #/admin, #/data, #/sessions, and #/s/<id> followed by nothing, /live, /moderate, /admin or /data
+ */
+export const parseRoute = (hash: string): Route => {
+  const parts = hash.replace(/^#\/?/, '').split('/').filter(Boolean);
+
+  if (parts[0] === 's' && parts[1]) {
+    const sessionId = decodeURIComponent(parts[1]);
+    return { page: asSessionPage(parts[2]), sessionId };
+  }
+  if (parts[0] === 'sessions') return { page: 'sessions', sessionId: DEFAULT_SESSION_ID };
+
+  return { page: asSessionPage(parts[0]), sessionId: DEFAULT_SESSION_ID };
+};
+
+/**
+ * Builds the hash for a session page. The default session keeps the short legacy URLs.
+ */
+export const sessionPath = (sessionId: string, page: SessionPage = 'input'): string => {
+  const base = sessionId === DEFAULT_SESSION_ID ? '#' : `#/s/${encodeURIComponent(sessionId)}`;
+  if (page === 'input') return sessionId === DEFAULT_SESSION_ID ? '#/' : base;
+  return `${base}/${page}`;
+};
+
+/**
+ * Full URL of a session page on this deployment, e.g. for the join QR code.
+ */
+export const sessionUrl = (sessionId: string, page: SessionPage = 'input'): string => {
+  return `${window.location.origin}${window.location.pathname}${sessionPath(sessionId, page)}`;
+};
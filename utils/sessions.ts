@@ -0,0 +1,25 @@
+import { DEFAULT_SESSION_ID } from '../constants';
+import { EventSession, WordCloudEntry } from '../types';
+
+/**
+ * Short, URL-safe session ID for #/s/<id> routes.
+ */
+export const createSessionId = (): string => {
+  return Math.random().toString(36).slice(2, 8);
+};
+
+export const buildSession = (name: string): EventSession => ({
+  id: createSessionId(),
+  name: name.trim(),
+  created_at: new Date().toISOString(),
+  archived: false,
+});
+
+/**
+ * Checks whether an entry belongs to a session.
+ * Entries without a session_id predate sessions and count towards the default one.
+ */
+export const matchesSession = (entry: WordCloudEntry, sessionId: string): boolean => {
+  if (!entry.session_id) return sessionId === DEFAULT_SESSION_ID;
+  return entry.session_id === sessionId;
+};
@@ -0,0 +1,103 @@
+import { ImageAlpha, ShapeMask, ShapeName } from '../types';
+
+// Circles (cx, cy, r) in a [-1, 1] box that together form a cloud outline
+const CLOUD_PUFFS: [number, number, number][] = [
+  [-0.62, 0.22, 0.36],
+  [-0.22, -0.18, 0.5],
+  [0.3, -0.28, 0.48],
+  [0.66, 0.12, 0.34],
+  [0.05, 0.3, 0.5],
+];
+
+/**
+ * Analytic masks for the built-in shapes, fitted to a width x height layout.
+ * Returns null for 'rectangle' (the whole canvas) and 'image' (see imageAlphaMask).
+ */
+export const builtInShapeMask = (shape: ShapeName, width: number, height: number): ShapeMask | null => {
+  const cx = width / 2;
+  const cy = height / 2;
+
+  switch (shape) {
+    case 'ellipse':
+      return (x, y) => ((x - cx) / cx) ** 2 + ((y - cy) / cy) ** 2 <= 1;
+
+    case 'circle': {
+      const r = Math.min(cx, cy);
+      return (x, y) => (x - cx) ** 2 + (y - cy) ** 2 <= r * r;
+    }
+
+    case 'heart': {
+      // (x² + y² - 1)³ - x²y³ <= 0 spans about x ∈ [-1.14, 1.14], y ∈ [-1, 1.24]
+      const s = Math.min(width / 2.4, height / 2.4);
+      return (x, y) => {
+        const nx = (x - cx) / s;
+        const ny = -(y - cy) / s + 0.12;
+        const a = nx * nx + ny * ny - 1;
+        return a * a * a - nx * nx * ny * ny * ny <= 0;
+      };
+    }
+
+    case 'cloud':
+      return (x, y) => {
+        const nx = (x - cx) / cx;
+        const ny = (y - cy) / cy;
+        return CLOUD_PUFFS.some(([px, py, r]) => (nx - px) ** 2 + (ny - py) ** 2 <= r * r);
+      };
+
+    default:
+      return null;
+  }
+};
+
+// Alpha is sampled on a grid this many times smaller than the layout
+const IMAGE_MASK_STEP = 4;
+const OPAQUE_ALPHA = 128;
+
+/**
+ * Decodes a PNG or SVG silhouette (e.g. a logo) into an alpha grid over a width x height layout.
+ * The image is scaled to fit and centered. Needs the DOM, so it runs on the main thread.
+ */
+export const loadImageAlpha = (src: string, width: number, height: number): Promise<ImageAlpha | null> => {
+  return new Promise((resolve) => {
+    const image = new Image();
+    image.onload = () => {
+      const gridWidth = Math.ceil(width / IMAGE_MASK_STEP);
+      const gridHeight = Math.ceil(height / IMAGE_MASK_STEP);
+      const canvas = document.createElement('canvas');
+      canvas.width = gridWidth;
+      canvas.height = gridHeight;
+      const ctx = canvas.getContext('2d');
+      if (!ctx || !image.width || !image.height) {
+        resolve(null);
+        return;
+      }
+
+      const fit = Math.min(gridWidth / image.width, gridHeight / image.height);
+      const drawWidth = image.width * fit;
+      const drawHeight = image.height * fit;
+      ctx.drawImage(image, (gridWidth - drawWidth) / 2, (gridHeight - drawHeight) / 2, drawWidth, drawHeight);
+
+      const rgba = ctx.getImageData(0, 0, gridWidth, gridHeight).data;
+      const data = new Uint8Array(gridWidth * gridHeight);
+      for (let i = 0; i < data.length; i++) data[i] = rgba[i * 4 + 3];
+      resolve({ width: gridWidth, height: gridHeight, step: IMAGE_MASK_STEP, data });
+    };
+    image.onerror = () => {
+      console.error('Failed to load shape image');
+      resolve(null);
+    };
+    image.src = src;
+  });
+};
+
+/**
+ * Mask over a decoded shape image: only its opaque pixels are usable.
+ */
+export const imageAlphaMask = (alpha: ImageAlpha): ShapeMask => {
+  return (x, y) => {
+    const gx = Math.floor(x / alpha.step);
+    const gy = Math.floor(y / alpha.step);
+    if (gx < 0 || gy < 0 || gx >= alpha.width || gy >= alpha.height) return false;
+    return alpha.data[gy * alpha.width + gx] >= OPAQUE_ALPHA;
+  };
+};
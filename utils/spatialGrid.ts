@@ -0,0 +1,56 @@
+/**
+ * Axis-aligned box by its edges, in layout pixels.
+ */
+export interface Box {
+  left: number;
+  top: number;
+  right: number;
+  bottom: number;
+}
+
+/**
+ * Uniform grid over the layout area. Each cell lists the items whose box touches it,
+ * so a query only looks at items near the box instead of every placed word.
+ */
+export interface SpatialGrid<T> {
+  cellSize: number;
+  columns: number;
+  rows: number;
+  cells: T[][];
+}
+
+export const createSpatialGrid = <T>(width: number, height: number, cellSize: number): SpatialGrid<T> => {
+  const columns = Math.max(1, Math.ceil(width / cellSize));
+  const rows = Math.max(1, Math.ceil(height / cellSize));
+  return { cellSize, columns, rows, cells: Array.from({ length: columns * rows }, () => []) };
+};
+
+/**
+ * Calls visit for each cell index the box covers, clamped to the grid.
+ */
+const forEachCell = <T>(grid: SpatialGrid<T>, box: Box, visit: (index: number) => void) => {
+  const clamp = (value: number, max: number) => Math.min(max, Math.max(0, value));
+  const firstColumn = clamp(Math.floor(box.left / grid.cellSize), grid.columns - 1);
+  const lastColumn = clamp(Math.floor(box.right / grid.cellSize), grid.columns - 1);
+  const firstRow = clamp(Math.floor(box.top / grid.cellSize), grid.rows - 1);
+  const lastRow = clamp(Math.floor(box.bottom / grid.cellSize), grid.rows - 1);
+
+  for (let row = firstRow; row <= lastRow; row++) {
+    for (let column = firstColumn; column <= lastColumn; column++) {
+      visit(row * grid.columns + column);
+    }
+  }
+};
+
+export const gridInsert = <T>(grid: SpatialGrid<T>, box: Box, item: T) => {
+  forEachCell(grid, box, index => grid.cells[index].push(item));
+};
+
+/**
+ * Items stored in any cell the box covers, each once. They may not overlap the box itself.
+ */
+export const gridQuery = <T>(grid: SpatialGrid<T>, box: Box): T[] => {
+  const found = new Set<T>();
+  forEachCell(grid, box, index => grid.cells[index].forEach(item => found.add(item)));
+  return Array.from(found);
+};
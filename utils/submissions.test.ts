@@ -0,0 +1,35 @@
+import { describe, expect, it } from 'vitest';
+import { Question, SubmissionLimits, SubmissionRecord } from '../types';
+import { checkSubmission } from './submissions';
+
+const LIMITS: SubmissionLimits = { cooldownSeconds: 10, maxPerQuestion: 2, rejectDuplicates: true };
+const NOW = 1_000_000;
+const QUESTION: Question = { id: 'q1', text: 'What is risk?', maxAnswers: null };
+
+const record = (text: string, at: number, questionId: string | null = 'q1'): SubmissionRecord => ({ questionId, text, at });
+
+describe('checkSubmission', () => {
+  it('allows the first answer', () => {
+    expect(checkSubmission([], 'risk', QUESTION, LIMITS, NOW)).toBeNull();
+  });
+
+  it('refuses during the cooldown with the seconds left', () => {
+    const history = [record('audit', NOW - 3500)];
+    expect(checkSubmission(history, 'risk', QUESTION, LIMITS, NOW)).toEqual({ reason: 'cooldown', waitSeconds: 7 });
+    expect(checkSubmission(history, 'risk', QUESTION, LIMITS, NOW + 6500)).toBeNull();
+  });
+
+  it('refuses past the per-question maximum, preferring the question limit', () => {
+    const history = [record('audit', 0), record('control', 0)];
+    expect(checkSubmission(history, 'risk', QUESTION, LIMITS, NOW)).toEqual({ reason: 'limit', max: 2 });
+    expect(checkSubmission(history, 'risk', { ...QUESTION, maxAnswers: 3 }, LIMITS, NOW)).toBeNull();
+    expect(checkSubmission(history, 'risk', { ...QUESTION, id: 'q2' }, LIMITS, NOW)).toBeNull();
+  });
+
+  it('refuses an answer already sent to the same question, compared normalized', () => {
+    const history = [record('risk', 0)];
+    expect(checkSubmission(history, 'Risk!', QUESTION, LIMITS, NOW)).toEqual({ reason: 'duplicate' });
+    expect(checkSubmission(history, 'Risk!', { ...QUESTION, id: 'q2' }, LIMITS, NOW)).toBeNull();
+    expect(checkSubmission(history, 'Risk!', QUESTION, { ...LIMITS, rejectDuplicates: false }, NOW)).toBeNull();
+  });
+});
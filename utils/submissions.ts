@@ -0,0 +1,74 @@
+import { Question, SubmissionLimits, SubmissionRecord, SubmissionRefusal } from '../types';
+import { normalizeText } from './normalize';
+
+const historyKey = (sessionId: string) => `wordcloud.submissions.${sessionId}`;
+
+/**
+ * What this device has sent to a session, oldest first.
+ */
+export const loadSubmissionHistory = (sessionId: string): SubmissionRecord[] => {
+  try {
+    const saved = localStorage.getItem(historyKey(sessionId));
+    return saved ? JSON.parse(saved) : [];
+  } catch {
+    return [];
+  }
+};
+
+/**
+ * Appends a submission to the device history and returns the new history.
+ */
+export const recordSubmission = (
+  sessionId: string,
+  history: SubmissionRecord[],
+  text: string,
+  questionId: string | null
+): SubmissionRecord[] => {
+  const next = [...history, { questionId, text: normalizeText(text), at: Date.now() }];
+  try {
+    localStorage.setItem(historyKey(sessionId), JSON.stringify(next));
+  } catch (error) {
+    console.error('Error saving submission history:', error);
+  }
+  return next;
+};
+
+/**
+ * Answers allowed per device for a question: its own limit if set, otherwise the session's.
+ */
+export const answerLimit = (limits: SubmissionLimits, question: Question | null): number | null => {
+  return question?.maxAnswers ?? limits.maxPerQuestion;
+};
+
+export const countAnswers = (history: SubmissionRecord[], questionId: string | null): number => {
+  return history.filter(record => record.questionId === questionId).length;
+};
+
+/**
+ * Why this device may not send the text now, or null if it may.
+ */
+export const checkSubmission = (
+  history: SubmissionRecord[],
+  text: string,
+  question: Question | null,
+  limits: SubmissionLimits,
+  now = Date.now()
+): SubmissionRefusal | null => {
+  const questionId = question?.id ?? null;
+
+  const last = history[history.length - 1];
+  const waitMs = last ? last.at + limits.cooldownSeconds * 1000 - now : 0;
+  if (waitMs > 0) return { reason: 'cooldown', waitSeconds: Math.ceil(waitMs / 1000) };
+
+  const max = answerLimit(limits, question);
+  if (max && countAnswers(history, questionId) >= max) return { reason: 'limit', max };
+
+  if (limits.rejectDuplicates) {
+    const normalized = normalizeText(text);
+    if (history.some(record => record.questionId === questionId && record.text === normalized)) {
+      return { reason: 'duplicate' };
+    }
+  }
+
+  return null;
+};
@@ -0,0 +1,49 @@
+import { CanvasConfig, ThemeBackground, WordFrequency } from '../types';
+
+const escapeXml = (text: string): string => {
+  return text
+    .replace(/&/g, '&amp;')
+    .replace(/</g, '&lt;')
+    .replace(/>/g, '&gt;')
+    .replace(/"/g, '&quot;')
+    .replace(/'/g, '&apos;');
+};
+
+const round = (value: number) => Math.round(value * 10) / 10;
+
+const renderBackground = (background: ThemeBackground): string[] => {
+  if (background.type === 'color') {
+    return [`  <rect width="100%" height="100%" fill="${escapeXml(background.color)}"/>`];
+  }
+  if (background.type === 'image') {
+    return [`  <image href="${escapeXml(background.src)}" width="100%" height="100%" preserveAspectRatio="xMidYMid slice"/>`];
+  }
+  return [];
+};
+
+/**
+ * Serializes placed words as a standalone SVG document.
+ * Each word is a real <text> element centered on its x/y, matching the canvas
+ * renderer's textAlign 'center' and textBaseline 'middle'.
+ */
+export const renderSvg = (words: WordFrequency[], config: CanvasConfig, background: ThemeBackground): string => {
+  const fontFamily = escapeXml(config.fontFamily);
+
+  const texts = words
+    .filter(word => word.x !== undefined && word.y !== undefined)
+    .map(word => {
+      const x = round(word.x!);
+      const y = round(word.y!);
+      const rotate = word.rotate ? ` transform="rotate(${word.rotate} ${x} ${y})"` : '';
+      return `  <text x="${x}" y="${y}" font-size="${word.size}" fill="${escapeXml(word.color)}"${rotate}>${escapeXml(word.text)}</text>`;
+    });
+
+  return [
+    `<svg xmlns="http://www.w3.org/2000/svg" width="${config.width}" height="${config.height}" viewBox="0 0 ${config.width} ${config.height}">`,
+    ...renderBackground(background),
+    `  <g font-family="${fontFamily}" font-weight="bold" text-anchor="middle" dominant-baseline="central">`,
+    ...texts.map(text => `  ${text}`),
+    '  </g>',
+    '</svg>',
+  ].join('\n');
+};
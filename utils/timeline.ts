@@ -0,0 +1,44 @@
+import { WordCloudEntry } from '../types';
+
+const MINUTE_MS = 60_000;
+
+const entryTime = (entry: WordCloudEntry): number | null => {
+  if (!entry.created_at) return null;
+  const time = new Date(entry.created_at).getTime();
+  return Number.isNaN(time) ? null : time;
+};
+
+/**
+ * Earliest and latest entry times in epoch ms, or null when no entry has a timestamp.
+ */
+export const entryTimeRange = (entries: WordCloudEntry[]): { start: number; end: number } | null => {
+  let range: { start: number; end: number } | null = null;
+  for (const entry of entries) {
+    const time = entryTime(entry);
+    if (time === null) continue;
+    if (!range) range = { start: time, end: time };
+    else if (time < range.start) range.start = time;
+    else if (time > range.end) range.end = time;
+  }
+  return range;
+};
+
+/**
+ * Whether an entry is in the shown stretch of time: sent at or before `end` (null for live),
+ * and within the last `windowMinutes` before it (null for all time). Entries without a
+ * timestamp can't be placed in time, so they only show live with no window.
+ */
+export const isInTimeSpan = (
+  entry: WordCloudEntry,
+  end: number | null,
+  windowMinutes: number | null,
+  now: number
+): boolean => {
+  if (end === null && !windowMinutes) return true;
+  const time = entryTime(entry);
+  if (time === null) return false;
+
+  const until = end ?? now;
+  if (time > until) return false;
+  return !windowMinutes || time > until - windowMinutes * MINUTE_MS;
+};
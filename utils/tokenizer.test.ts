@@ -0,0 +1,37 @@
+import { describe, expect, it } from 'vitest';
+import { createTokenizer } from './tokenizer';
+
+describe('createTokenizer', () => {
+  it('keeps each trimmed entry as one token in phrase mode', () => {
+    const tokenize = createTokenizer();
+    expect(tokenize('  risk and reward  ')).toEqual(['risk and reward']);
+    expect(tokenize('   ')).toEqual([]);
+  });
+
+  it('drops English stop words in word mode', () => {
+    const tokenize = createTokenizer({ mode: 'word' });
+    expect(tokenize('The risk and the reward')).toEqual(['risk', 'reward']);
+  });
+
+  it('keeps the Thai nominalising prefix on its word', () => {
+    const tokenize = createTokenizer({ mode: 'word' });
+    expect(tokenize('ความเสี่ยง')).toEqual(['ความเสี่ยง']);
+  });
+
+  it('only drops stop words of the chosen languages, plus custom ones', () => {
+    const tokenize = createTokenizer({ mode: 'word', stopWordLanguages: [], customStopWords: ['Reward'] });
+    expect(tokenize('the risk and the reward')).toEqual(['the', 'risk', 'and', 'the']);
+  });
+
+  it('builds n-grams that neither start nor end with a stop word', () => {
+    const tokenize = createTokenizer({ mode: 'ngram', ngramSize: 2 });
+    expect(tokenize('risk management plan')).toEqual(['risk management', 'management plan']);
+    expect(tokenize('risk of fraud')).toEqual([]);
+  });
+
+  it('keeps an entry shorter than the n-gram size as one token', () => {
+    const tokenize = createTokenizer({ mode: 'ngram', ngramSize: 3 });
+    expect(tokenize('cyber risk')).toEqual(['cyber risk']);
+    expect(tokenize('the')).toEqual([]);
+  });
+});
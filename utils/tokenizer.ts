@@ -0,0 +1,113 @@
+import { DEFAULT_TOKENIZE_SETTINGS, STOP_WORDS } from '../constants';
+import { DisplaySettings, TokenizeOptions } from '../types';
+
+export const DEFAULT_TOKENIZE_OPTIONS: Required<TokenizeOptions> = {
+  mode: 'phrase',
+  ...DEFAULT_TOKENIZE_SETTINGS,
+};
+
+/**
+ * Tokenizer options for the live display's current settings.
+ */
+export const displayTokenizeOptions = (display: DisplaySettings): TokenizeOptions => ({
+  mode: display.tokenizeMode,
+  ...display.tokenize,
+});
+
+const THAI_CHAR = /[฀-๿]/;
+
+// Thai nominalising prefixes. The segmenter splits "ความเสี่ยง" into "ความ" + "เสี่ยง",
+// which would turn "risk" into "dangerous", so they are glued back onto the next word.
+const THAI_PREFIXES = new Set(['การ', 'ความ']);
+
+let segmenter: Intl.Segmenter | null | undefined;
+
+const getSegmenter = (): Intl.Segmenter | null => {
+  if (segmenter === undefined) {
+    segmenter = typeof Intl !== 'undefined' && 'Segmenter' in Intl
+      ? new Intl.Segmenter('th', { granularity: 'word' })
+      : null;
+  }
+  return segmenter;
+};
+
+/**
+ * Splits text into words. Uses Intl.Segmenter for Thai, which has no spaces between words.
+ * Falls back to splitting on whitespace and punctuation in browsers without it.
+ */
+export const segmentWords = (text: string): string[] => {
+  const seg = getSegmenter();
+  const words = seg
+    ? Array.from(seg.segment(text)).filter(s => s.isWordLike).map(s => s.segment)
+    : text.split(/[\s\p{P}\p{S}]+/u).filter(Boolean);
+
+  const merged: string[] = [];
+  for (let i = 0; i < words.length; i++) {
+    const next = words[i + 1];
+    if (THAI_PREFIXES.has(words[i]) && next && THAI_CHAR.test(next)) {
+      merged.push(words[i] + next);
+      i++;
+    } else {
+      merged.push(words[i]);
+    }
+  }
+  return merged;
+};
+
+/**
+ * Joins words back into display text. Thai words are written without spaces between them.
+ */
+const joinWords = (words: string[]): string => {
+  return words.reduce((text, word, i) => {
+    if (i === 0) return word;
+    const prev = words[i - 1];
+    const thaiPair = THAI_CHAR.test(prev[prev.length - 1]) && THAI_CHAR.test(word[0]);
+    return text + (thaiPair ? '' : ' ') + word;
+  }, '');
+};
+
+const buildStopWordSet = (options: Required<TokenizeOptions>): Set<string> => {
+  const words = options.stopWordLanguages.flatMap(lang => STOP_WORDS[lang] || []);
+  return new Set([...words, ...options.customStopWords].map(w => w.toLowerCase()));
+};
+
+/**
+ * Builds a reusable tokenizer for one generation run.
+ * - 'phrase': the whole trimmed entry is one token
+ * - 'word': each non stop word
+ * - 'ngram': runs of ngramSize consecutive words that neither start nor end with a stop word
+ */
+export const createTokenizer = (options?: TokenizeOptions): ((entry: string) => string[]) => {
+  const resolved = { ...DEFAULT_TOKENIZE_OPTIONS, ...options };
+  const stopWords = buildStopWordSet(resolved);
+  const isStopWord = (word: string) => stopWords.has(word.toLowerCase());
+
+  if (resolved.mode === 'word') {
+    return (entry) => segmentWords(entry).filter(word => !isStopWord(word));
+  }
+
+  if (resolved.mode === 'ngram') {
+    const n = Math.max(1, Math.floor(resolved.ngramSize));
+    return (entry) => {
+      const words = segmentWords(entry);
+      // Entries shorter than n still count as a single token
+      if (words.length < n) {
+        const kept = words.filter(word => !isStopWord(word));
+        return kept.length > 0 ? [joinWords(words)] : [];
+      }
+
+      const grams: string[] = [];
+      for (let i = 0; i + n <= words.length; i++) {
+        const gram = words.slice(i, i + n);
+        if (isStopWord(gram[0]) || isStopWord(gram[n - 1])) continue;
+        grams.push(joinWords(gram));
+      }
+      return grams;
+    };
+  }
+
+  return (entry) => {
+    const phrase = entry.trim();
+    return phrase.length > 0 ? [phrase] : [];
+  };
+};
@@ -1,185 +1,215 @@
-import { CANVAS_CONFIG, COLORS } from '../constants';
-import { WordFrequency } from '../types';
-
-// Internal interface for collision detection with dimensions
-interface PlacedWord extends WordFrequency {
-  width: number;
-  height: number;
-  x: number;
-  y: number;
-}
+import { CANVAS_CONFIG, DEFAULT_SIZING_OPTIONS, DEFAULT_THEME } from '../constants';
+import {
+  CanvasConfig, GenerationControl, GenerationOptions, GenerationResult, ShapeMask, Theme, WordFrequency
+} from '../types';
+import { createTokenizer } from './tokenizer';
+import { countPhrases } from './normalize';
+import { computeLayout, DEFAULT_LAYOUT_OPTIONS } from './layout';
+import {
+  Canvas2DContext, CanvasBackground, canvasToPng, createCanvasMeasurer, createCanvasSurface, createGlyphRasterizer, renderCanvas
+} from './canvasRenderer';
+import { renderSvg } from './svgRenderer';
+import { builtInShapeMask, imageAlphaMask, loadImageAlpha } from './shapes';
+
+
+export const CANCELLED: GenerationResult = { success: false, unplaced: [], error: 'Cancelled' };
 
 /**
- * Processes input entries as whole phrases.
- * Does not split by space. Trims whitespace and counts exact phrase matches.
+ * Splits input entries into tokens and counts them.
+ * Defaults to whole-phrase mode: each trimmed line is one token.
+ * Word and n-gram modes segment Thai text and drop stop words (see utils/tokenizer).
+ * Tokens are grouped by normalized form, so "Risk", "risk" and "risk!" count together (see utils/normalize).
+ * Returns every word, most frequent first.
  */
-const processPhrases = (entries: string[]): WordFrequency[] => {
-  const frequencyMap: Record<string, number> = {};
-  let maxCount = 0;
-
-  entries.forEach(entry => {
-    const cleanEntry = entry.trim(); 
-    // Only count if not empty. 
-    // We treat the entire line as one token (phrase mode).
-    if (cleanEntry.length > 0) {
-      frequencyMap[cleanEntry] = (frequencyMap[cleanEntry] || 0) + 1;
-      maxCount = Math.max(maxCount, frequencyMap[cleanEntry]);
-    }
-  });
+export const processPhrases = (entries: string[], options: GenerationOptions = {}): WordFrequency[] => {
+  const tokenize = createTokenizer(options.tokenize);
+  const tokens = entries.flatMap(entry => tokenize(entry));
 
   // Convert to array and sort
-  return Object.entries(frequencyMap)
-    .map(([text, count]) => ({
+  return countPhrases(tokens, options.normalize)
+    .map(({ text, count }) => ({
       text,
       count,
-      size: 0, // To be calculated
-      color: COLORS[Math.floor(Math.random() * COLORS.length)]
+      size: 0, // Assigned by computeLayout
+      color: '' // Assigned by computeLayout
     }))
-    .sort((a, b) => b.count - a.count)
-    .slice(0, 120); // Slightly reduced limit to prevent overcrowding with huge fonts
+    .sort((a, b) => b.count - a.count);
 };
 
 /**
- * Checks if two words intersect based on their bounding boxes.
+ * Creates a canvas at the configured output size.
  */
-const intersect = (word: PlacedWord, otherWord: PlacedWord): boolean => {
-  // Expand bounding box slightly (padding) for better visual separation
-  const padding = 15; // Increased padding for big text
-  
-  return !(word.x + word.width / 2 + padding < otherWord.x - otherWord.width / 2 - padding ||
-           word.x - word.width / 2 - padding > otherWord.x + otherWord.width / 2 + padding ||
-           word.y + word.height / 2 + padding < otherWord.y - otherWord.height / 2 - padding ||
-           word.y - word.height / 2 - padding > otherWord.y + otherWord.height / 2 + padding);
-};
+const createCanvas = () => createCanvasSurface(CANVAS_CONFIG.width, CANVAS_CONFIG.height);
+
+const renderConfig = (theme: Theme): CanvasConfig => ({ ...CANVAS_CONFIG, fontFamily: theme.fontFamily });
 
 /**
- * Generates the Word Cloud on a canvas and returns a Blob.
- * Accepts an array of raw text entries (phrases).
+ * Decodes a background image for the canvas. Uses an <img> where the DOM exists,
+ * since createImageBitmap can't read SVG blobs directly.
  */
-export const generateWordCloudBlob = (entries: string[]): Promise<Blob | null> => {
-  return new Promise((resolve) => {
-    const words = processPhrases(entries);
-    
-    // If no words found
-    if (words.length === 0) {
-      console.warn("No valid phrases found to generate cloud");
-      resolve(null);
-      return;
+const loadBackgroundImage = async (src: string): Promise<ImageBitmap | null> => {
+  try {
+    if (typeof Image !== 'undefined') {
+      const image = new Image();
+      image.src = src;
+      await image.decode();
+      return await createImageBitmap(image);
     }
+    const response = await fetch(src);
+    return await createImageBitmap(await response.blob());
+  } catch (error) {
+    console.error('Error loading background image:', error);
+    return null;
+  }
+};
 
-    const canvas = document.createElement('canvas');
-    canvas.width = CANVAS_CONFIG.width;
-    canvas.height = CANVAS_CONFIG.height;
-    const ctx = canvas.getContext('2d');
+const resolveBackground = async (theme: Theme): Promise<CanvasBackground> => {
+  const { background } = theme;
+  if (background.type === 'color') return background.color;
+  if (background.type === 'image') return loadBackgroundImage(background.src);
+  return null;
+};
 
-    if (!ctx) {
-      resolve(null);
-      return;
-    }
+/**
+ * Resolves options.shape to a mask over the output canvas.
+ * An 'image' shape without a loadable shapeImage falls back to the full rectangle.
+ */
+const resolveShapeMask = async (options: GenerationOptions): Promise<ShapeMask | undefined> => {
+  const shape = options.shape ?? 'rectangle';
+  if (shape === 'image') {
+    const alpha = options.shapeAlpha
+      ?? (options.shapeImage ? await loadImageAlpha(options.shapeImage, CANVAS_CONFIG.width, CANVAS_CONFIG.height) : null);
+    return alpha ? imageAlphaMask(alpha) : undefined;
+  }
+  return builtInShapeMask(shape, CANVAS_CONFIG.width, CANVAS_CONFIG.height) ?? undefined;
+};
 
-    // Background
-    ctx.fillStyle = '#ffffff';
-    ctx.fillRect(0, 0, canvas.width, canvas.height);
-
-    // Calculation config
-    const centerX = canvas.width / 2;
-    const centerY = canvas.height / 2;
-    // Huge font sizes for event display
-    const maxFontSize = 550; 
-    const minFontSize = 80;  
-    
-    const maxCount = words[0]?.count || 1;
-    const minCount = words[words.length - 1]?.count || 1;
-
-    const placedWords: PlacedWord[] = [];
-
-    words.forEach((word) => {
-      // Calculate font size based on frequency
-      const scale = maxCount === minCount ? 1 : (word.count - minCount) / (maxCount - minCount);
-      // Linear interpolation
-      word.size = Math.floor(minFontSize + scale * (maxFontSize - minFontSize));
-      
-      // Setup font to measure accurately
-      ctx.font = `bold ${word.size}px ${CANVAS_CONFIG.fontFamily}`;
-      ctx.textBaseline = 'middle';
-      ctx.textAlign = 'center';
-      
-      let metrics = ctx.measureText(word.text);
-      let width = metrics.width;
-      
-      // Safety: If a long sentence is wider than the canvas, scale it down
-      // Allow up to 95% of canvas width
-      if (width > canvas.width * 0.95) {
-          const scaleFactor = (canvas.width * 0.95) / width;
-          word.size = Math.floor(word.size * scaleFactor);
-          // Re-measure with new size
-          ctx.font = `bold ${word.size}px ${CANVAS_CONFIG.fontFamily}`;
-          metrics = ctx.measureText(word.text);
-          width = metrics.width;
-      }
-
-      const height = word.size * 1.1; // Slightly more height for line spacing
-
-      const candidate: PlacedWord = {
-        ...word,
-        width,
-        height,
-        x: centerX,
-        y: centerY
-      };
-      
-      // Spiral placement algorithm
-      let angle = 0;
-      let radius = 0;
-      const angleStep = 0.5;
-      const radiusStep = 20; // Larger step for larger fonts
-      
-      const maxIterations = 3000;
-      let iterations = 0;
-
-      while (iterations < maxIterations) {
-        candidate.x = centerX + (radius * Math.cos(angle));
-        candidate.y = centerY + (radius * Math.sin(angle));
-
-        // Check collision
-        let collision = false;
-        
-        // 1. Boundary Check
-        if (candidate.x - width/2 < 0 || candidate.x + width/2 > canvas.width || 
-            candidate.y - height/2 < 0 || candidate.y + height/2 > canvas.height) {
-             // If spiraled out of canvas bounds
-             if (radius > Math.max(canvas.width, canvas.height)) {
-                collision = true;
-                break;
-             }
-             collision = true;
-        }
-
-        // 2. Word Collision Check
-        if (!collision) {
-            for (const other of placedWords) {
-            if (intersect(candidate, other)) {
-                collision = true;
-                break;
-            }
-            }
-        }
-
-        if (!collision) {
-          placedWords.push({ ...candidate });
-          ctx.fillStyle = word.color;
-          ctx.fillText(word.text, candidate.x, candidate.y);
-          break;
-        }
-
-        angle += angleStep;
-        radius += radiusStep;
-        iterations++;
-      }
-    });
-
-    canvas.toBlob((blob) => {
-      resolve(blob);
-    }, 'image/png');
+/**
+ * Runs the pure layout with real canvas text measurement, the requested shape,
+ * the previous layout if any and, unless options.collision is 'box', glyph-mask collision.
+ */
+const layoutWithCanvas = async (
+  words: WordFrequency[],
+  ctx: Canvas2DContext,
+  options: GenerationOptions,
+  control: GenerationControl = {}
+) => {
+  const theme = options.theme ?? DEFAULT_THEME;
+  const sizing = { ...DEFAULT_SIZING_OPTIONS, ...options.sizing };
+  const rasterizer = options.collision === 'box' ? null : createGlyphRasterizer(theme.fontFamily);
+  return computeLayout(words, {
+    seed: options.seed ?? DEFAULT_LAYOUT_OPTIONS.seed,
+    rotation: options.rotation ?? DEFAULT_LAYOUT_OPTIONS.rotation,
+    minFontSize: sizing.minFontSize,
+    // A max below the min would invert the scale
+    maxFontSize: Math.max(sizing.minFontSize, sizing.maxFontSize),
+    scaling: sizing.scaling,
+    palette: theme.palette.length > 0 ? theme.palette : DEFAULT_THEME.palette,
+    colorMode: theme.colorMode,
+    measureText: createCanvasMeasurer(ctx, theme.fontFamily),
+    rasterizer: rasterizer ?? undefined,
+    mask: await resolveShapeMask(options),
+    previous: options.previousLayout,
+    onProgress: control.onProgress && ((done, total) => control.onProgress!({ done, total })),
   });
-};
\ No newline at end of file
+};
+
+/**
+ * Tokenizes, counts and lays out the entries without drawing them.
+ * Accepts an array of raw text entries; options.tokenize controls how they are split.
+ * options.sizing sets the size curve, font size range, word limit and minimum count.
+ * Words that did not fit the canvas or shape, or fell past the word limit, are listed in
+ * `unplaced` with the reason, and `timing` says where the time went.
+ * Works on the main thread and inside a worker (see utils/generationWorker).
+ * An aborted signal stops before the layout; the layout itself runs to completion.
+ */
+export const generateWordCloudLayout = async (
+  entries: string[],
+  options: GenerationOptions = {},
+  control: GenerationControl = {}
+): Promise<GenerationResult> => {
+  const startedAt = performance.now();
+  const { maxWords, minCount } = { ...DEFAULT_SIZING_OPTIONS, ...options.sizing };
+  // Words under the minimum count are left out on purpose, so they aren't reported as unplaced
+  const counted = processPhrases(entries, options).filter(word => word.count >= minCount);
+  const words = counted.slice(0, maxWords);
+  const tokenizedAt = performance.now();
+
+  // If no words found
+  if (words.length === 0) {
+    console.warn("No valid phrases found to generate cloud");
+    return { success: false, unplaced: [], error: 'No valid phrases found' };
+  }
+
+  // The canvas is only used to measure text, so every renderer matches the layout
+  const { ctx } = createCanvasSurface(1, 1);
+  if (!ctx) {
+    return { success: false, unplaced: [], error: 'Canvas is not available' };
+  }
+
+  if (control.signal?.aborted) return CANCELLED;
+  const { placed, unplaced } = await layoutWithCanvas(words, ctx, options, control);
+  const finishedAt = performance.now();
+
+  return {
+    success: true,
+    placed,
+    unplaced: [...unplaced, ...counted.slice(maxWords).map(word => ({ ...word, reason: 'limit' as const }))],
+    timing: {
+      tokenize: tokenizedAt - startedAt,
+      layout: finishedAt - tokenizedAt,
+      total: finishedAt - startedAt,
+    },
+  };
+};
+
+/**
+ * Draws already placed words as a PNG at the configured output size, in the theme's font and background.
+ */
+export const renderWordCloudPng = async (placed: WordFrequency[], theme: Theme = DEFAULT_THEME): Promise<Blob | null> => {
+  const { canvas, ctx } = createCanvas();
+  if (!ctx) return null;
+
+  renderCanvas(ctx, placed, renderConfig(theme), await resolveBackground(theme));
+  return canvasToPng(canvas);
+};
+
+/**
+ * Serializes already placed words as an SVG Blob with one <text> element per word,
+ * so it stays editable and scales cleanly for print.
+ */
+export const renderWordCloudSvg = (placed: WordFrequency[], theme: Theme = DEFAULT_THEME): Blob => {
+  const svg = renderSvg(placed, renderConfig(theme), theme.background);
+  return new Blob([svg], { type: 'image/svg+xml;charset=utf-8' });
+};
+
+/**
+ * Generates the Word Cloud as a PNG Blob (see generateWordCloudLayout).
+ */
+export const generateWordCloudBlob = async (
+  entries: string[],
+  options: GenerationOptions = {},
+  control: GenerationControl = {}
+): Promise<GenerationResult> => {
+  const layout = await generateWordCloudLayout(entries, options, control);
+  if (!layout.success || !layout.placed) return layout;
+  if (control.signal?.aborted) return CANCELLED;
+
+  const renderStartedAt = performance.now();
+  const blob = await renderWordCloudPng(layout.placed, options.theme);
+  if (!blob) {
+    return { success: false, unplaced: layout.unplaced, error: 'Failed to encode PNG' };
+  }
+
+  const render = performance.now() - renderStartedAt;
+  const timing = layout.timing && { ...layout.timing, render, total: layout.timing.total + render };
+  return { ...layout, blob, timing };
+};
+
+/**
+ * Generates the Word Cloud as an SVG Blob (see generateWordCloudLayout).
+ */
+export const generateWordCloudSvg = async (entries: string[], options: GenerationOptions = {}): Promise<Blob | null> => {
+  const layout = await generateWordCloudLayout(entries, options);
+  return layout.placed ? renderWordCloudSvg(layout.placed, options.theme) : null;
+};